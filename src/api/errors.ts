@@ -0,0 +1,104 @@
+/**
+ * Errors thrown by the InsForge platform API client.
+ * Each failure mode gets its own class so callers (and the sidebar) can tell
+ * "no projects" apart from "network down", "forbidden" or "server error".
+ */
+export class InsForgeApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, undefined for network failures */
+    readonly status?: number,
+    /** Machine-readable error code from the response body, if any */
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The request never got a response (DNS, offline, TLS, connection reset...) */
+export class NetworkError extends InsForgeApiError {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+  }
+}
+
+/** 401 - no valid session, even after refreshing the token */
+export class UnauthorizedError extends InsForgeApiError {
+  constructor(message = 'Not logged in to InsForge') {
+    super(message, 401);
+  }
+}
+
+/** 403 - the account can't access this resource */
+export class ForbiddenError extends InsForgeApiError {}
+
+/** 404 - the resource doesn't exist (or is hidden from this account) */
+export class NotFoundError extends InsForgeApiError {}
+
+/** 429 - still rate limited after retrying */
+export class RateLimitError extends InsForgeApiError {
+  constructor(message: string, readonly retryAfterMs?: number) {
+    super(message, 429);
+  }
+}
+
+/** 5xx - still failing after retrying */
+export class ServerError extends InsForgeApiError {}
+
+/**
+ * Build the error matching an HTTP error response
+ */
+export function errorFromResponse(
+  status: number,
+  statusText: string,
+  body?: { error?: string; message?: string },
+  retryAfterMs?: number
+): InsForgeApiError {
+  const message = body?.message || body?.error || statusText || `HTTP ${status}`;
+
+  if (status === 401) {
+    return new UnauthorizedError(message);
+  }
+  if (status === 403) {
+    return new ForbiddenError(message, status, body?.error);
+  }
+  if (status === 404) {
+    return new NotFoundError(message, status, body?.error);
+  }
+  if (status === 429) {
+    return new RateLimitError(message, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status, body?.error);
+  }
+  return new InsForgeApiError(message, status, body?.error);
+}
+
+/**
+ * User-facing description of an API error
+ */
+export function describeApiError(error: unknown): string {
+  if (error instanceof NetworkError) {
+    return "Can't reach InsForge. Check your network connection and try again.";
+  }
+  if (error instanceof UnauthorizedError) {
+    return 'Your InsForge session has expired. Please log in again.';
+  }
+  if (error instanceof ForbiddenError) {
+    return `You don't have access to this resource (${error.message}).`;
+  }
+  if (error instanceof NotFoundError) {
+    return `Not found: ${error.message}`;
+  }
+  if (error instanceof RateLimitError) {
+    return 'InsForge is rate limiting requests. Please wait a moment and try again.';
+  }
+  if (error instanceof ServerError) {
+    return `InsForge is having trouble right now (HTTP ${error.status}). Please try again later.`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
@@ -0,0 +1,209 @@
+import { getEndpoints } from '../utils/endpoints';
+import { errorFromResponse, ForbiddenError, InsForgeApiError, NetworkError } from './errors';
+
+export interface Organization {
+  id: string;
+  name: string;
+  slug?: string;
+  type?: string;
+  description?: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  region: string;
+  appkey: string;
+  status?: string;
+  storage_disk_size?: number;
+  access_api_key?: string;
+}
+
+/**
+ * Performs a request with the user's access token (token refresh is handled by AuthProvider)
+ */
+export type AuthenticatedFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Makes sure the session has the given OAuth scopes, re-authorizing if needed.
+ * Resolves to false if they weren't granted.
+ */
+export type ScopeRequester = (scopes: string[]) => Promise<boolean>;
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  /** Retry network errors and 5xx responses (defaults to true for GET only; 429 is always retried) */
+  retry?: boolean;
+  /** OAuth scopes the call needs (defaults to `projects:write` for anything but GET) */
+  scopes?: string[];
+}
+
+/** Paging metadata some list endpoints return alongside the items */
+interface PageInfo {
+  total?: number;
+  pagination?: { total?: number };
+}
+
+// Scope needed by write requests unless RequestOptions.scopes says otherwise
+const WRITE_SCOPES = ['projects:write'];
+
+// Retry configuration
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Pagination configuration
+const PAGE_SIZE = 100;
+const MAX_PAGES = 50;
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with jitter: ~500ms, ~1s, ~2s...
+ */
+function backoffDelay(attempt: number): number {
+  const base = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+  return Math.min(base + Math.random() * base * 0.5, RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.min(seconds * 1000, RETRY_MAX_DELAY_MS);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.min(Math.max(date - Date.now(), 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Typed client for the InsForge platform API.
+ * Failures are thrown as InsForgeApiError subclasses (see ./errors).
+ */
+export class InsForgeApiClient {
+  constructor(
+    private readonly _fetch: AuthenticatedFetch,
+    private readonly _requestScopes?: ScopeRequester
+  ) {}
+
+  async getOrganizations(): Promise<Organization[]> {
+    return this.getAllPages<Organization>('/organizations/v1', 'organizations');
+  }
+
+  async getProjects(organizationId: string): Promise<Project[]> {
+    return this.getAllPages<Project>(`/organizations/v1/${encodeURIComponent(organizationId)}/projects`, 'projects');
+  }
+
+  async getProjectApiKey(projectId: string): Promise<string> {
+    const data = await this.request<{ access_api_key?: string }>(
+      `/projects/v1/${encodeURIComponent(projectId)}/access-api-key`
+    );
+    if (!data.access_api_key) {
+      throw new InsForgeApiError('The API response did not include an access API key');
+    }
+    return data.access_api_key;
+  }
+
+  /**
+   * Regenerate the project's access API key. The old key stops working.
+   */
+  async rotateProjectApiKey(projectId: string): Promise<string> {
+    const data = await this.request<{ access_api_key?: string }>(
+      `/projects/v1/${encodeURIComponent(projectId)}/access-api-key/rotate`,
+      { method: 'POST' }
+    );
+    if (!data.access_api_key) {
+      throw new InsForgeApiError('The API response did not include the new access API key');
+    }
+    return data.access_api_key;
+  }
+
+  /**
+   * Send a request to the platform API, retrying rate limits and transient failures
+   */
+  async request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+    const method = options.method || 'GET';
+    const retry = options.retry ?? method === 'GET';
+    const url = `${getEndpoints().apiUrl}${path}`;
+
+    // Step up to write scopes before the first write instead of failing with 403
+    const scopes = options.scopes ?? (method === 'GET' ? [] : WRITE_SCOPES);
+    if (scopes.length > 0 && this._requestScopes && !await this._requestScopes(scopes)) {
+      throw new ForbiddenError(`${method} ${path} requires the ${scopes.join(', ')} permission`, 403, 'insufficient_scope');
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await this._fetch(url, {
+          method,
+          headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+          body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        });
+      } catch (error) {
+        // Errors from the auth layer (e.g. UnauthorizedError) are final
+        if (error instanceof InsForgeApiError) {
+          throw error;
+        }
+        if (retry && attempt < MAX_ATTEMPTS) {
+          await delay(backoffDelay(attempt));
+          continue;
+        }
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new NetworkError(`${method} ${path} failed: ${reason}`, error);
+      }
+
+      if (response.ok) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+      const retryable = response.status === 429 || (retry && response.status >= 500);
+      if (retryable && attempt < MAX_ATTEMPTS) {
+        console.warn(`[InsForgeApiClient] ${method} ${path} returned ${response.status}, retrying (${attempt}/${MAX_ATTEMPTS - 1})`);
+        await delay(retryAfterMs ?? backoffDelay(attempt));
+        continue;
+      }
+
+      const body = await response.json().catch(() => undefined) as { error?: string; message?: string } | undefined;
+      throw errorFromResponse(response.status, response.statusText, body, retryAfterMs);
+    }
+  }
+
+  /**
+   * Fetch every page of a list endpoint. Stops on a short page, when the reported
+   * total is reached, or when the server ignores paging and repeats items.
+   */
+  private async getAllPages<T extends { id: string }>(path: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    const seen = new Set<string>();
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const separator = path.includes('?') ? '&' : '?';
+      const data = await this.request<Record<string, unknown> & PageInfo>(
+        `${path}${separator}limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`
+      );
+
+      const pageItems = (data[key] as T[] | undefined) || [];
+      const newItems = pageItems.filter(item => !seen.has(item.id));
+      newItems.forEach(item => seen.add(item.id));
+      items.push(...newItems);
+
+      const total = data.pagination?.total ?? data.total;
+      if (pageItems.length < PAGE_SIZE || newItems.length === 0 || (total !== undefined && items.length >= total)) {
+        break;
+      }
+    }
+
+    return items;
+  }
+}
@@ -1,21 +1,58 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import * as http from 'http';
+import { getEndpoints } from '../utils/endpoints';
+import { InsForgeApiClient, Organization, Project } from '../api/insforgeClient';
+import { UnauthorizedError } from '../api/errors';
+import { PROJECT_BINDING_FILE, ProjectBinding, readProjectBinding, readWorkspaceBindings } from '../utils/projectBinding';
+import { registerSecret } from '../utils/redact';
 
+// Secrets are stored per account as `<key>.<account key>`
 const AUTH_SECRET_KEY = 'insforge.authToken';
 const REFRESH_SECRET_KEY = 'insforge.refreshToken';
+// Single-account user data written by older versions, migrated on startup
 const USER_DATA_KEY = 'insforge.userData';
+const ACCOUNTS_KEY = 'insforge.accounts';
+const ACTIVE_ACCOUNT_KEY = 'insforge.activeAccount';
+// Selected org/project, remembered per workspace (workspaceState)
+const SELECTED_PROJECT_KEY = 'insforge.selectedProject';
 
-// OAuth configuration
-const INSFORGE_URL = 'https://api.insforge.dev'; // Production API
+// OAuth configuration (endpoints come from the active environment, see utils/endpoints)
 const DEFAULT_CLIENT_ID = 'clf_YHy7imyx2SKnEZZwpV-X1Q'; // Official InsForge VS Code Extension (Public)
 
 // Port range for OAuth callback server (fallback if port is busy)
 const OAUTH_PORT_START = 54321;
 const OAUTH_PORT_END = 54330;
 
-// OAuth scopes
-const SCOPES = 'user:read organizations:read projects:read projects:write';
+// Path of the vscode:// redirect handled by handleUri (uriHandler login method)
+const AUTH_CALLBACK_PATH = '/auth-callback';
+
+// How long an interactive login waits for the browser redirect
+const LOGIN_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Personal access token used when no session is active (CI, provisioned dev containers)
+const ACCESS_TOKEN_ENV_VAR = 'INSFORGE_ACCESS_TOKEN';
+
+// OAuth scopes requested at login. Write access is requested on first use (see requestScopes).
+const LOGIN_SCOPES = ['user:read', 'organizations:read', 'projects:read'];
+const WRITE_SCOPE = 'projects:write';
+// Assumed for sessions whose scopes are unknown (personal access tokens, sessions from older versions)
+const ALL_SCOPES = [...LOGIN_SCOPES, WRITE_SCOPE];
+const GRANTED_SCOPES_KEY = 'insforge.grantedScopes';
+
+// RFC 8628 device authorization grant
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const DEVICE_CODE_DEFAULT_INTERVAL_SEC = 5;
+const DEVICE_CODE_SLOW_DOWN_SEC = 5;
+
+/**
+ * How the interactive login is performed:
+ * - 'browser': loopback redirect to a local HTTP server
+ * - 'uriHandler': redirect back to the editor through its URI scheme (no local port)
+ * - 'deviceCode': OAuth device authorization grant (works in remote/headless hosts)
+ * - 'auto': device code when running in a remote extension host, browser otherwise
+ */
+export type LoginMethod = 'auto' | 'browser' | 'uriHandler' | 'deviceCode';
 
 export interface UserData {
   id: string;
@@ -23,42 +60,104 @@ export interface UserData {
   name?: string;
 }
 
-export interface Organization {
-  id: string;
-  name: string;
-  slug?: string;
-  type?: string;
-  description?: string;
-}
-
-export interface Project {
-  id: string;
-  name: string;
-  region: string;
-  appkey: string;
-  status?: string;
-  storage_disk_size?: number;
-  access_api_key?: string;
+/**
+ * A signed-in InsForge account. Accounts are bound to the environment that issued their tokens.
+ */
+export interface Account {
+  /** Unique key: `<environment>:<user id>` */
+  key: string;
+  environment: string;
+  user: UserData;
+  /** Signed in with a personal access token: no refresh token, no expiry */
+  tokenSession?: boolean;
 }
 
 interface TokenResponse {
   access_token: string;
   refresh_token?: string;
   expires_in?: number;
+  /** Space-separated scopes actually granted (may be omitted if identical to the request) */
+  scope?: string;
   error?: string;
+  error_description?: string;
   message?: string;
 }
 
+interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
 const TOKEN_EXPIRY_KEY = 'insforge.tokenExpiry';
 
+interface AuthState {
+  accountKey?: string;
+  loggedIn: boolean;
+}
+
+// Background refresh runs this long before the access token expires
+const TOKEN_REFRESH_AHEAD_MS = 2 * 60 * 1000;
+// Lower bound between background refresh attempts (also the retry delay after a transient failure)
+const TOKEN_REFRESH_MIN_DELAY_MS = 30 * 1000;
+// Windows sharing an account refresh up to this much earlier at random, so one of them goes first
+const TOKEN_REFRESH_JITTER_MS = 60 * 1000;
+// setTimeout overflows above this value
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Coalesces the burst of secret changes (access + refresh token) written by another window
+const SECRETS_CHANGE_DEBOUNCE_MS = 500;
+
+/**
+ * Escape text written into the loopback callback page
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
 export class AuthProvider {
   private context: vscode.ExtensionContext;
   private _onDidChangeAuth = new vscode.EventEmitter<boolean>();
   readonly onDidChangeAuth = this._onDidChangeAuth.event;
+  private _onDidChangeProject = new vscode.EventEmitter<Project | null>();
+  readonly onDidChangeProject = this._onDidChangeProject.event;
+  // Fires with the account whose tokens were stored (refresh), here or in another window
+  private _onDidChangeTokens = new vscode.EventEmitter<Account>();
+  readonly onDidChangeTokens = this._onDidChangeTokens.event;
 
   private currentOrg: Organization | null = null;
   private currentProject: Project | null = null;
 
+  // In-flight refresh per account, shared by concurrent callers since refresh tokens may rotate
+  private refreshPromises: Map<string, Promise<boolean>> = new Map();
+  private refreshTimer: NodeJS.Timeout | undefined;
+  // Accounts whose "session expired" prompt is currently shown
+  private expiredPrompts: Set<string> = new Set();
+
+  // Last auth state seen by this window, used to detect logins/logouts made in other windows
+  private lastAuthState: AuthState | undefined;
+  private secretsChangeTimer: NodeJS.Timeout | undefined;
+  // Secrets changed since the timer started
+  private changedSecretKeys: Set<string> = new Set();
+  // In-flight step-up authorizations by scope set, shared by concurrent actions needing the same scopes
+  private scopeRequests: Map<string, Promise<boolean>> = new Map();
+  // The last authorization queued; a request for other scopes waits for it
+  private scopeRequestQueue: Promise<unknown> = Promise.resolve();
+  // Resolves the uriHandler login waiting for its redirect (null = cancelled/superseded)
+  private pendingUriCallback: ((params: URLSearchParams | null) => void) | undefined;
+  private _disposables: vscode.Disposable[] = [];
+
+  // Platform API client, authenticated through authenticatedFetch
+  private api: InsForgeApiClient;
+
   // OAuth client credentials (will be set after registration)
   private clientId: string = '';
   private clientSecret: string = '';
@@ -70,6 +169,312 @@ export class AuthProvider {
     const config = vscode.workspace.getConfiguration('insforge');
     this.clientId = config.get('oauthClientId') || DEFAULT_CLIENT_ID;
     this.clientSecret = config.get('oauthClientSecret') || '';
+
+    this.api = new InsForgeApiClient(
+      (url, init) => this.authenticatedFetch(url, init),
+      (scopes) => this.requestScopes(scopes)
+    );
+
+    // Secrets are shared by all windows; react to logins/logouts made elsewhere
+    this._disposables.push(context.secrets.onDidChange((e) => this.handleSecretsChanged(e.key)));
+    this._disposables.push(this.onDidChangeAuth(async () => {
+      this.lastAuthState = await this.getAuthState();
+      vscode.commands.executeCommand('setContext', 'insforge.isTokenSession', !!this.getActiveAccount()?.tokenSession);
+    }));
+  }
+
+  /**
+   * Migrate a session stored by older single-account versions into the accounts list
+   */
+  async initialize(): Promise<void> {
+    const legacyToken = await this.context.secrets.get(AUTH_SECRET_KEY);
+    const legacyUser = this.context.globalState.get<UserData>(USER_DATA_KEY);
+
+    if (legacyToken && legacyUser) {
+      const legacyRefresh = await this.context.secrets.get(REFRESH_SECRET_KEY);
+      const legacyExpiry = this.context.globalState.get<number>(TOKEN_EXPIRY_KEY);
+      const account = this.buildAccount(legacyUser);
+
+      await this.context.secrets.store(this.accountKey(AUTH_SECRET_KEY, account), legacyToken);
+      if (legacyRefresh) {
+        await this.context.secrets.store(this.accountKey(REFRESH_SECRET_KEY, account), legacyRefresh);
+      }
+      if (legacyExpiry) {
+        await this.context.globalState.update(this.accountKey(TOKEN_EXPIRY_KEY, account), legacyExpiry);
+      }
+      await this.saveAccount(account);
+      await this.context.globalState.update(ACTIVE_ACCOUNT_KEY, account.key);
+    }
+
+    if (legacyToken || legacyUser) {
+      await this.context.secrets.delete(AUTH_SECRET_KEY);
+      await this.context.secrets.delete(REFRESH_SECRET_KEY);
+      await this.context.globalState.update(USER_DATA_KEY, undefined);
+      await this.context.globalState.update(TOKEN_EXPIRY_KEY, undefined);
+    }
+
+    this.lastAuthState = await this.getAuthState();
+    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', this.lastAuthState.loggedIn);
+    vscode.commands.executeCommand('setContext', 'insforge.isTokenSession', !!this.getActiveAccount()?.tokenSession);
+    this.scheduleTokenRefresh();
+
+    // Don't hold up activation on the profile request
+    this.loginFromEnvironment();
+  }
+
+  /**
+   * Sign in with INSFORGE_ACCESS_TOKEN, unless another session is already active.
+   * A token session started from an older value of the variable is replaced.
+   */
+  private async loginFromEnvironment(): Promise<void> {
+    const token = process.env[ACCESS_TOKEN_ENV_VAR]?.trim();
+    if (!token) {
+      return;
+    }
+
+    const account = this.getActiveAccount();
+    const currentToken = await this.getAccessToken(account);
+    if (currentToken && (!account?.tokenSession || currentToken === token)) {
+      return;
+    }
+
+    try {
+      const userData = await this.loginWithAccessToken(token);
+      console.log(`[AuthProvider] Logged in as ${userData.email} from ${ACCESS_TOKEN_ENV_VAR}`);
+    } catch (error) {
+      console.error(`[AuthProvider] ${ACCESS_TOKEN_ENV_VAR} login failed:`, error);
+      vscode.window.showWarningMessage(
+        `${ACCESS_TOKEN_ENV_VAR} is set but could not be used to log in: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  dispose(): void {
+    clearTimeout(this.refreshTimer);
+    clearTimeout(this.secretsChangeTimer);
+    this._disposables.forEach(d => d.dispose());
+    this._onDidChangeAuth.dispose();
+    this._onDidChangeProject.dispose();
+    this._onDidChangeTokens.dispose();
+  }
+
+  private async getAuthState(): Promise<AuthState> {
+    const account = this.getActiveAccount();
+    return { accountKey: account?.key, loggedIn: !!await this.getAccessToken(account) };
+  }
+
+  /**
+   * Another window (or this one) changed a token. Once the burst of writes settles,
+   * notify listeners if the login state differs from what this window last saw.
+   */
+  private handleSecretsChanged(key: string): void {
+    if (!key.startsWith(`${AUTH_SECRET_KEY}.`) && !key.startsWith(`${REFRESH_SECRET_KEY}.`)) {
+      return;
+    }
+
+    this.changedSecretKeys.add(key);
+    clearTimeout(this.secretsChangeTimer);
+    this.secretsChangeTimer = setTimeout(async () => {
+      this.secretsChangeTimer = undefined;
+      const changedKeys = this.changedSecretKeys;
+      this.changedSecretKeys = new Set();
+
+      // Tokens may have been refreshed elsewhere, pick up the new expiry
+      this.scheduleTokenRefresh();
+      for (const account of this.getAllAccounts()) {
+        if (changedKeys.has(this.accountKey(AUTH_SECRET_KEY, account)) || changedKeys.has(this.accountKey(REFRESH_SECRET_KEY, account))) {
+          this._onDidChangeTokens.fire(account);
+        }
+      }
+
+      const previous = this.lastAuthState;
+      const state = await this.getAuthState();
+      if (previous && state.accountKey === previous.accountKey && state.loggedIn === previous.loggedIn) {
+        return;
+      }
+
+      console.log('[AuthProvider] Auth state changed in another window');
+      // An expired session keeps its project; a different (or no) account does not
+      if (state.accountKey !== previous?.accountKey) {
+        this.currentOrg = null;
+        this.currentProject = null;
+      }
+      this.lastAuthState = state;
+
+      vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', state.loggedIn);
+      this._onDidChangeAuth.fire(state.loggedIn);
+    }, SECRETS_CHANGE_DEBOUNCE_MS);
+  }
+
+  /**
+   * Storage key for a per-account value
+   */
+  private accountKey(base: string, account: Account): string {
+    return `${base}.${account.key}`;
+  }
+
+  private buildAccount(user: UserData, tokenSession = false): Account {
+    const environment = getEndpoints().name;
+    const account: Account = { key: `${environment}:${user.id}`, environment, user };
+    if (tokenSession) {
+      account.tokenSession = true;
+    }
+    return account;
+  }
+
+  /**
+   * Accounts of every environment
+   */
+  getAllAccounts(): Account[] {
+    return this.context.globalState.get<Account[]>(ACCOUNTS_KEY, []);
+  }
+
+  private async saveAccount(account: Account): Promise<void> {
+    const accounts = this.getAllAccounts().filter(a => a.key !== account.key);
+    accounts.push(account);
+    await this.context.globalState.update(ACCOUNTS_KEY, accounts);
+  }
+
+  /**
+   * Accounts signed in to the active environment
+   */
+  getAccounts(): Account[] {
+    const environment = getEndpoints().name;
+    return this.getAllAccounts().filter(a => a.environment === environment);
+  }
+
+  /**
+   * The account used for API calls. Falls back to the first account of the
+   * active environment if the stored one belongs to another environment.
+   */
+  getActiveAccount(): Account | undefined {
+    const accounts = this.getAccounts();
+    const activeKey = this.context.globalState.get<string>(ACTIVE_ACCOUNT_KEY);
+    return accounts.find(a => a.key === activeKey) || accounts[0];
+  }
+
+  /**
+   * Make another signed-in account the active one
+   */
+  async switchAccount(key: string): Promise<boolean> {
+    const account = this.getAccounts().find(a => a.key === key);
+    if (!account) {
+      return false;
+    }
+
+    const previousKey = this.getActiveAccount()?.key;
+    await this.context.globalState.update(ACTIVE_ACCOUNT_KEY, account.key);
+
+    // Projects belong to the previous account (re-login to the same account keeps them)
+    if (previousKey !== account.key) {
+      this.currentOrg = null;
+      this.currentProject = null;
+    }
+
+    this.scheduleTokenRefresh();
+    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', true);
+    this._onDidChangeAuth.fire(true);
+    return true;
+  }
+
+  /**
+   * Get a valid access token for any signed-in account, refreshing it if expired.
+   * Used when the VS Code authentication provider creates a session after an interactive login.
+   */
+  async getValidAccessToken(account: Account): Promise<string | undefined> {
+    if (this.isTokenExpired(account) && !await this.refreshAccessToken(account)) {
+      return undefined;
+    }
+    return this.context.secrets.get(this.accountKey(AUTH_SECRET_KEY, account));
+  }
+
+  /**
+   * OAuth scopes granted to an account, as reported by the last token response
+   */
+  getGrantedScopes(account: Account): string[] {
+    if (account.tokenSession) {
+      return ALL_SCOPES;
+    }
+    return this.context.globalState.get<string[]>(this.accountKey(GRANTED_SCOPES_KEY, account)) || ALL_SCOPES;
+  }
+
+  /**
+   * Make sure the active account has the given scopes, re-authorizing with the
+   * missing ones (after asking the user) if needed. Returns false if they weren't granted.
+   */
+  requestScopes(scopes: string[]): Promise<boolean> {
+    const key = [...new Set(scopes)].sort().join(' ');
+    let pending = this.scopeRequests.get(key);
+    if (!pending) {
+      // One authorization at a time. Requests for other scopes run after the current
+      // one, which may already have granted them.
+      pending = this.scopeRequestQueue
+        .then(() => this.performScopeRequest(scopes))
+        .finally(() => this.scopeRequests.delete(key));
+      this.scopeRequests.set(key, pending);
+      this.scopeRequestQueue = pending.catch(() => false);
+    }
+    return pending;
+  }
+
+  private async performScopeRequest(scopes: string[]): Promise<boolean> {
+    const account = this.getActiveAccount();
+    if (!account) {
+      return false;
+    }
+
+    const granted = this.getGrantedScopes(account);
+    const missing = scopes.filter(scope => !granted.includes(scope));
+    if (missing.length === 0) {
+      return true;
+    }
+
+    const selection = await vscode.window.showInformationMessage(
+      `This action needs additional InsForge permissions (${missing.join(', ')}). Authorize them in your browser?`,
+      { modal: true },
+      'Authorize'
+    );
+    if (selection !== 'Authorize' || !await this.login(undefined, [...granted, ...missing])) {
+      return false;
+    }
+
+    const active = this.getActiveAccount();
+    return !!active && scopes.every(scope => this.getGrantedScopes(active).includes(scope));
+  }
+
+  /**
+   * Sign out of a specific account (e.g. from the VS Code Accounts menu)
+   */
+  async signOut(key: string): Promise<void> {
+    const account = this.getAllAccounts().find(a => a.key === key);
+    if (account) {
+      await this.removeAccount(account);
+    }
+  }
+
+  /**
+   * Remove an account and its secrets. If it was active, the next account
+   * of the environment (if any) becomes active.
+   */
+  private async removeAccount(account: Account): Promise<void> {
+    await this.context.secrets.delete(this.accountKey(AUTH_SECRET_KEY, account));
+    await this.context.secrets.delete(this.accountKey(REFRESH_SECRET_KEY, account));
+    await this.context.globalState.update(this.accountKey(TOKEN_EXPIRY_KEY, account), undefined);
+    await this.context.globalState.update(this.accountKey(GRANTED_SCOPES_KEY, account), undefined);
+    await this.context.globalState.update(
+      ACCOUNTS_KEY,
+      this.getAllAccounts().filter(a => a.key !== account.key)
+    );
+
+    const next = this.getActiveAccount();
+    await this.context.globalState.update(ACTIVE_ACCOUNT_KEY, next?.key);
+
+    this.currentOrg = null;
+    this.currentProject = null;
+
+    this.scheduleTokenRefresh();
+    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', !!next);
+    this._onDidChangeAuth.fire(!!next);
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -78,28 +483,57 @@ export class AuthProvider {
       return false;
     }
 
-    // If token is expired, try to refresh it
+    // If token is expired, try to refresh it (a rejected refresh prompts to log in again)
     if (this.isTokenExpired()) {
-      const refreshed = await this.refreshAccessToken();
-      if (!refreshed) {
-        // Couldn't refresh, clear auth
-        await this.clearAuth();
-        return false;
-      }
+      return this.refreshAccessToken();
     }
 
     return true;
   }
 
-  async getAccessToken(): Promise<string | undefined> {
-    return this.context.secrets.get(AUTH_SECRET_KEY);
+  async getAccessToken(account = this.getActiveAccount()): Promise<string | undefined> {
+    if (!account) {
+      return undefined;
+    }
+    return this.context.secrets.get(this.accountKey(AUTH_SECRET_KEY, account));
+  }
+
+  /**
+   * OAuth client ID for the active environment. A per-environment client ID
+   * takes precedence over the global insforge.oauthClientId setting.
+   */
+  private getClientId(): string {
+    return getEndpoints().oauthClientId || this.clientId;
+  }
+
+  /**
+   * Accounts are bound to the deployment that issued their tokens, so switching
+   * environments switches to an account of the new environment (if any).
+   */
+  async handleEnvironmentChanged(): Promise<void> {
+    this.currentOrg = null;
+    this.currentProject = null;
+
+    const account = this.getActiveAccount();
+    this.scheduleTokenRefresh();
+    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', !!account);
+    this._onDidChangeAuth.fire(!!account);
+
+    if (!account) {
+      vscode.window.showInformationMessage(
+        `Switched to InsForge environment "${getEndpoints().name}". Please log in.`
+      );
+    }
   }
 
   /**
    * Check if token is expired based on stored expiry time
    */
-  private isTokenExpired(): boolean {
-    const expiry = this.context.globalState.get<number>(TOKEN_EXPIRY_KEY);
+  private isTokenExpired(account = this.getActiveAccount()): boolean {
+    if (!account) {
+      return false;
+    }
+    const expiry = this.context.globalState.get<number>(this.accountKey(TOKEN_EXPIRY_KEY, account));
     if (!expiry) {
       return false; // No expiry stored, assume valid
     }
@@ -108,26 +542,50 @@ export class AuthProvider {
   }
 
   /**
-   * Try to refresh the access token using refresh token
+   * Try to refresh the access token using refresh token. Concurrent callers share
+   * a single request so a rotated refresh token is only used once.
    */
-  private async refreshAccessToken(): Promise<boolean> {
-    const refreshToken = await this.context.secrets.get(REFRESH_SECRET_KEY);
+  private refreshAccessToken(account = this.getActiveAccount()): Promise<boolean> {
+    if (!account) {
+      return Promise.resolve(false);
+    }
+
+    let pending = this.refreshPromises.get(account.key);
+    if (!pending) {
+      pending = this.performTokenRefresh(account).finally(() => {
+        this.refreshPromises.delete(account.key);
+      });
+      this.refreshPromises.set(account.key, pending);
+    }
+    return pending;
+  }
+
+  private async performTokenRefresh(account: Account): Promise<boolean> {
+    // Personal access tokens can't be refreshed; a rejected one needs a new token
+    if (account.tokenSession) {
+      await this.handleSessionExpired(account);
+      return false;
+    }
+
+    const refreshToken = await this.context.secrets.get(this.accountKey(REFRESH_SECRET_KEY, account));
     if (!refreshToken) {
+      await this.handleSessionExpired(account);
       return false;
     }
+    const expiry = this.context.globalState.get<number>(this.accountKey(TOKEN_EXPIRY_KEY, account));
 
     try {
       const body: Record<string, string> = {
         grant_type: 'refresh_token',
         refresh_token: refreshToken,
-        client_id: this.clientId,
+        client_id: this.getClientId(),
       };
 
       if (this.clientSecret) {
         body.client_secret = this.clientSecret;
       }
 
-      const response = await fetch(`${INSFORGE_URL}/api/oauth/v1/token`, {
+      const response = await fetch(getEndpoints().tokenUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -137,6 +595,13 @@ export class AuthProvider {
 
       if (!response.ok) {
         console.error('Token refresh failed:', response.statusText);
+        // 400/401 means the refresh token was rejected; anything else may be transient
+        if (response.status === 400 || response.status === 401) {
+          if (await this.wasRefreshedElsewhere(account, refreshToken, expiry)) {
+            return true;
+          }
+          await this.handleSessionExpired(account);
+        }
         return false;
       }
 
@@ -144,20 +609,14 @@ export class AuthProvider {
 
       if (tokens.error) {
         console.error('Token refresh error:', tokens.error);
+        if (await this.wasRefreshedElsewhere(account, refreshToken, expiry)) {
+          return true;
+        }
+        await this.handleSessionExpired(account);
         return false;
       }
 
-      // Store new tokens
-      await this.context.secrets.store(AUTH_SECRET_KEY, tokens.access_token);
-      if (tokens.refresh_token) {
-        await this.context.secrets.store(REFRESH_SECRET_KEY, tokens.refresh_token);
-      }
-
-      // Store expiry time
-      if (tokens.expires_in) {
-        const expiryTime = Date.now() + (tokens.expires_in * 1000);
-        await this.context.globalState.update(TOKEN_EXPIRY_KEY, expiryTime);
-      }
+      await this.storeTokens(account, tokens);
 
       console.log('Token refreshed successfully');
       return true;
@@ -168,34 +627,142 @@ export class AuthProvider {
   }
 
   /**
-   * Handle 401 unauthorized response - try refresh or logout
+   * A rejected refresh token may just have been rotated by another window refreshing
+   * at the same time. Give its writes time to land, then compare the stored tokens
+   * with the ones this refresh started from.
+   */
+  private async wasRefreshedElsewhere(account: Account, usedRefreshToken: string, usedExpiry: number | undefined): Promise<boolean> {
+    await new Promise(resolve => setTimeout(resolve, SECRETS_CHANGE_DEBOUNCE_MS));
+
+    const refreshToken = await this.context.secrets.get(this.accountKey(REFRESH_SECRET_KEY, account));
+    const expiry = this.context.globalState.get<number>(this.accountKey(TOKEN_EXPIRY_KEY, account));
+    if (!refreshToken || (refreshToken === usedRefreshToken && expiry === usedExpiry)) {
+      return false;
+    }
+
+    console.log('[AuthProvider] Token was refreshed by another window');
+    this.scheduleTokenRefresh();
+    return true;
+  }
+
+  /**
+   * Refresh the active account's token shortly before it expires so API calls
+   * don't have to wait on (or race for) a refresh.
+   */
+  private scheduleTokenRefresh(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
+
+    const account = this.getActiveAccount();
+    if (!account) {
+      return;
+    }
+
+    const expiry = this.context.globalState.get<number>(this.accountKey(TOKEN_EXPIRY_KEY, account));
+    if (!expiry) {
+      return;
+    }
+
+    const jitter = Math.random() * TOKEN_REFRESH_JITTER_MS;
+    const delay = Math.min(
+      Math.max(expiry - TOKEN_REFRESH_AHEAD_MS - jitter - Date.now(), TOKEN_REFRESH_MIN_DELAY_MS),
+      MAX_TIMER_DELAY_MS
+    );
+
+    this.refreshTimer = setTimeout(async () => {
+      this.refreshTimer = undefined;
+
+      // Another window may have refreshed the shared tokens since the timer was set
+      if (this.context.globalState.get<number>(this.accountKey(TOKEN_EXPIRY_KEY, account)) !== expiry) {
+        this.scheduleTokenRefresh();
+        return;
+      }
+
+      const refreshed = await this.refreshAccessToken(account);
+      // storeTokens reschedules on success; retry later after a transient failure
+      if (!refreshed && await this.getAccessToken(account)) {
+        this.scheduleTokenRefresh();
+      }
+    }, delay);
+  }
+
+  /**
+   * The refresh token was rejected or is missing. Drop the tokens but keep the
+   * account and the selected project, so logging in again picks up where the user left off.
+   */
+  private async handleSessionExpired(account: Account): Promise<void> {
+    await this.context.secrets.delete(this.accountKey(AUTH_SECRET_KEY, account));
+    await this.context.secrets.delete(this.accountKey(REFRESH_SECRET_KEY, account));
+    await this.context.globalState.update(this.accountKey(TOKEN_EXPIRY_KEY, account), undefined);
+
+    if (this.getActiveAccount()?.key === account.key) {
+      this.scheduleTokenRefresh();
+      vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', false);
+      this._onDidChangeAuth.fire(false);
+    }
+
+    if (this.expiredPrompts.has(account.key)) {
+      return;
+    }
+    this.expiredPrompts.add(account.key);
+
+    if (account.tokenSession) {
+      vscode.window.showWarningMessage(
+        `InsForge access token for ${account.user.email} was rejected — log in with a new token`,
+        'Login with Token'
+      ).then(async (selection) => {
+        this.expiredPrompts.delete(account.key);
+        if (selection === 'Login with Token') {
+          await vscode.commands.executeCommand('insforge.loginWithToken');
+        }
+      });
+      return;
+    }
+
+    vscode.window.showWarningMessage(
+      `InsForge session expired for ${account.user.email} — log in again`,
+      'Log In'
+    ).then(async (selection) => {
+      this.expiredPrompts.delete(account.key);
+      if (selection === 'Log In') {
+        await this.login();
+      }
+    });
+  }
+
+  /**
+   * Handle 401 unauthorized response - reuse a token refreshed by another caller, or refresh
    */
-  private async handleUnauthorized(): Promise<boolean> {
-    // Try to refresh token first
-    const refreshed = await this.refreshAccessToken();
-    if (refreshed) {
+  private async handleUnauthorized(usedToken: string): Promise<boolean> {
+    const currentToken = await this.getAccessToken();
+    if (currentToken && currentToken !== usedToken) {
       return true;
     }
 
-    // Refresh failed, clear everything and force re-login
-    await this.clearAuth();
-    return false;
+    return this.refreshAccessToken();
   }
 
   /**
-   * Clear all auth data without showing logout message
+   * Store tokens for an account
    */
-  private async clearAuth(): Promise<void> {
-    await this.context.secrets.delete(AUTH_SECRET_KEY);
-    await this.context.secrets.delete(REFRESH_SECRET_KEY);
-    await this.context.globalState.update(USER_DATA_KEY, undefined);
-    await this.context.globalState.update(TOKEN_EXPIRY_KEY, undefined);
+  private async storeTokens(account: Account, tokens: TokenResponse): Promise<void> {
+    await this.context.secrets.store(this.accountKey(AUTH_SECRET_KEY, account), tokens.access_token);
+    if (tokens.refresh_token) {
+      await this.context.secrets.store(this.accountKey(REFRESH_SECRET_KEY, account), tokens.refresh_token);
+    }
 
-    this.currentOrg = null;
-    this.currentProject = null;
+    if (tokens.expires_in) {
+      const expiryTime = Date.now() + (tokens.expires_in * 1000);
+      await this.context.globalState.update(this.accountKey(TOKEN_EXPIRY_KEY, account), expiryTime);
+    }
 
-    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', false);
-    this._onDidChangeAuth.fire(false);
+    // Refresh responses usually omit the scope; keep the last known grant then
+    if (tokens.scope) {
+      await this.context.globalState.update(this.accountKey(GRANTED_SCOPES_KEY, account), tokens.scope.split(' '));
+    }
+
+    this.scheduleTokenRefresh();
+    this._onDidChangeTokens.fire(account);
   }
 
   /**
@@ -206,13 +773,13 @@ export class AuthProvider {
     if (this.isTokenExpired()) {
       const refreshed = await this.refreshAccessToken();
       if (!refreshed) {
-        throw new Error('UNAUTHORIZED');
+        throw new UnauthorizedError();
       }
     }
 
     const token = await this.getAccessToken();
     if (!token) {
-      throw new Error('UNAUTHORIZED');
+      throw new UnauthorizedError();
     }
 
     const response = await fetch(url, {
@@ -225,7 +792,7 @@ export class AuthProvider {
 
     // Handle 401 - token might have been invalidated server-side
     if (response.status === 401) {
-      const refreshed = await this.handleUnauthorized();
+      const refreshed = await this.handleUnauthorized(token);
       if (refreshed) {
         // Retry with new token
         const newToken = await this.getAccessToken();
@@ -237,7 +804,7 @@ export class AuthProvider {
           },
         });
       }
-      throw new Error('UNAUTHORIZED');
+      throw new UnauthorizedError();
     }
 
     return response;
@@ -294,9 +861,26 @@ export class AuthProvider {
     });
   }
 
-  async login(): Promise<boolean> {
+  /**
+   * Resolve the login method, honoring the insforge.loginMethod setting.
+   * Remote-SSH, dev containers and Codespaces can't reach the extension host's
+   * loopback address from the browser, so 'auto' picks the device code flow there.
+   */
+  private resolveLoginMethod(method?: LoginMethod): Exclude<LoginMethod, 'auto'> {
+    const configured = method
+      ?? vscode.workspace.getConfiguration('insforge').get<LoginMethod>('loginMethod', 'auto');
+    if (configured !== 'auto') {
+      return configured;
+    }
+    return vscode.env.remoteName ? 'deviceCode' : 'browser';
+  }
+
+  /**
+   * Interactive login. Requests the minimal read scopes plus any extra `scopes`.
+   */
+  async login(method?: LoginMethod, scopes: string[] = []): Promise<boolean> {
     // Check if OAuth credentials are configured
-    if (!this.clientId) {
+    if (!this.getClientId()) {
       const result = await vscode.window.showErrorMessage(
         'OAuth client not configured. Please set your client ID in settings.',
         'Open Settings'
@@ -307,20 +891,20 @@ export class AuthProvider {
       return false;
     }
 
-    try {
-      // Find an available port
-      const port = await this.findAvailablePort();
-      console.log(`[InsForge] Using port ${port} for OAuth callback`);
-      const redirectUri = `http://127.0.0.1:${port}/callback`;
-
-      // Generate PKCE pair
-      const codeVerifier = this.generateCodeVerifier();
-
-      // Generate state for CSRF protection
-      const state = this.generateState();
+    const scope = [...new Set([...LOGIN_SCOPES, ...scopes])].join(' ');
 
-      // Start local callback server
-      const authResult = await this.startCallbackServer(port, state, codeVerifier, redirectUri);
+    try {
+      let authResult: UserData | null;
+      switch (this.resolveLoginMethod(method)) {
+        case 'deviceCode':
+          authResult = await this.loginWithDeviceCode(scope);
+          break;
+        case 'uriHandler':
+          authResult = await this.loginWithUriHandler(scope);
+          break;
+        default:
+          authResult = await this.loginWithBrowser(scope);
+      }
 
       if (authResult) {
         vscode.window.showInformationMessage(`Logged in as ${authResult.email}`);
@@ -334,6 +918,218 @@ export class AuthProvider {
     }
   }
 
+  /**
+   * Authorization code + PKCE flow with a loopback redirect
+   */
+  private async loginWithBrowser(scope: string): Promise<UserData | null> {
+    // Find an available port
+    const port = await this.findAvailablePort();
+    console.log(`[InsForge] Using port ${port} for OAuth callback`);
+    const redirectUri = `http://127.0.0.1:${port}/callback`;
+
+    // Generate PKCE pair
+    const codeVerifier = this.generateCodeVerifier();
+
+    // Generate state for CSRF protection
+    const state = this.generateState();
+
+    // Start local callback server
+    return this.startCallbackServer(port, state, codeVerifier, redirectUri, scope);
+  }
+
+  /**
+   * Authorization code + PKCE flow redirecting to `<uriScheme>://insforge.insforge/auth-callback`.
+   * The editor routes the redirect to handleUri, so no local port or firewall rule is needed.
+   */
+  private async loginWithUriHandler(scope: string): Promise<UserData | null> {
+    // asExternalUri makes the redirect work in web and remote hosts too
+    const callbackUri = await vscode.env.asExternalUri(
+      vscode.Uri.parse(`${vscode.env.uriScheme}://${this.context.extension.id}${AUTH_CALLBACK_PATH}`)
+    );
+    const redirectUri = callbackUri.toString(true);
+
+    // Generate PKCE pair and state for CSRF protection
+    const codeVerifier = this.generateCodeVerifier();
+    const state = this.generateState();
+
+    // A newer login attempt supersedes one still waiting for its redirect
+    this.pendingUriCallback?.(null);
+
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Complete login in your browser...',
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const params = await new Promise<URLSearchParams | null>((resolve) => {
+          const finish = (result: URLSearchParams | null) => {
+            clearTimeout(timeout);
+            cancellation.dispose();
+            if (this.pendingUriCallback === finish) {
+              this.pendingUriCallback = undefined;
+            }
+            resolve(result);
+          };
+          const timeout = setTimeout(() => finish(null), LOGIN_TIMEOUT_MS);
+          const cancellation = token.onCancellationRequested(() => finish(null));
+          this.pendingUriCallback = finish;
+
+          const authUrl = this.buildAuthorizeUrl(redirectUri, state, codeVerifier, scope);
+          vscode.env.openExternal(vscode.Uri.parse(authUrl));
+        });
+
+        if (!params) {
+          return null;
+        }
+
+        const result = this.checkAuthorizationResponse(params, state);
+        if ('error' in result) {
+          throw new Error(`${result.title}: ${result.error}`);
+        }
+
+        return this.completeAuthorization(result.code, codeVerifier, redirectUri, scope);
+      }
+    );
+  }
+
+  /**
+   * Handle `<uriScheme>://insforge.insforge/...` redirects (registered via registerUriHandler)
+   */
+  handleUri(uri: vscode.Uri): void {
+    if (uri.path !== AUTH_CALLBACK_PATH) {
+      console.warn(`[InsForge] Ignoring unknown URI path: ${uri.path}`);
+      return;
+    }
+
+    if (!this.pendingUriCallback) {
+      vscode.window.showWarningMessage('Received an InsForge login redirect, but no login is in progress.');
+      return;
+    }
+
+    this.pendingUriCallback(new URLSearchParams(uri.query));
+  }
+
+  /**
+   * Device authorization grant (RFC 8628): show a code, let the user approve it
+   * in any browser and poll the token endpoint until they do.
+   */
+  private async loginWithDeviceCode(scope: string): Promise<UserData | null> {
+    const device = await this.requestDeviceCode(scope);
+    const verificationUri = device.verification_uri_complete || device.verification_uri;
+
+    vscode.window.showInformationMessage(
+      `To log in to InsForge, open ${device.verification_uri} and enter the code ${device.user_code}`,
+      'Copy Code & Open Browser'
+    ).then(async (selection) => {
+      if (selection) {
+        await vscode.env.clipboard.writeText(device.user_code);
+        await vscode.env.openExternal(vscode.Uri.parse(verificationUri));
+      }
+    });
+
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `InsForge login code: ${device.user_code}`,
+        cancellable: true,
+      },
+      async (progress, token) => {
+        progress.report({ message: 'Waiting for authorization...' });
+
+        const tokens = await this.pollDeviceToken(device, token);
+        if (!tokens) {
+          return null;
+        }
+
+        const userData = await this.fetchUserData(tokens.access_token);
+        await this.addAccount(userData, { ...tokens, scope: tokens.scope || scope });
+        return userData;
+      }
+    );
+  }
+
+  private async requestDeviceCode(scope: string): Promise<DeviceAuthorizationResponse> {
+    const body: Record<string, string> = {
+      client_id: this.getClientId(),
+      scope,
+    };
+
+    const response = await fetch(getEndpoints().deviceAuthorizationUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Device authorization failed: ${response.statusText}. ${error}`);
+    }
+
+    return response.json() as Promise<DeviceAuthorizationResponse>;
+  }
+
+  /**
+   * Poll the token endpoint until the device code is approved, denied or expires.
+   * Returns null if the user cancels.
+   */
+  private async pollDeviceToken(
+    device: DeviceAuthorizationResponse,
+    cancellationToken: vscode.CancellationToken
+  ): Promise<TokenResponse | null> {
+    let intervalMs = (device.interval || DEVICE_CODE_DEFAULT_INTERVAL_SEC) * 1000;
+    const deadline = Date.now() + device.expires_in * 1000;
+
+    const body: Record<string, string> = {
+      grant_type: DEVICE_CODE_GRANT_TYPE,
+      device_code: device.device_code,
+      client_id: this.getClientId(),
+    };
+
+    if (this.clientSecret) {
+      body.client_secret = this.clientSecret;
+    }
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+      if (cancellationToken.isCancellationRequested) {
+        return null;
+      }
+
+      const response = await fetch(getEndpoints().tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      const tokens = await response.json() as TokenResponse;
+
+      if (response.ok && tokens.access_token) {
+        return tokens;
+      }
+
+      switch (tokens.error) {
+        case 'authorization_pending':
+          break;
+        case 'slow_down':
+          intervalMs += DEVICE_CODE_SLOW_DOWN_SEC * 1000;
+          break;
+        case 'access_denied':
+          throw new Error('Authorization was denied');
+        case 'expired_token':
+          throw new Error('The login code expired. Please try again.');
+        default:
+          throw new Error(`${tokens.error || response.statusText}: ${tokens.error_description || tokens.message || ''}`);
+      }
+    }
+
+    throw new Error('The login code expired. Please try again.');
+  }
+
   /**
    * Start a temporary HTTP server to receive the OAuth callback
    */
@@ -341,27 +1137,26 @@ export class AuthProvider {
     port: number,
     state: string,
     codeVerifier: string,
-    redirectUri: string
+    redirectUri: string,
+    scope: string
   ): Promise<UserData | null> {
     return new Promise((resolve, reject) => {
       const server = http.createServer(async (req, res) => {
         const url = new URL(req.url || '', `http://127.0.0.1:${port}`);
 
         if (url.pathname === '/callback') {
-          const code = url.searchParams.get('code');
-          const returnedState = url.searchParams.get('state');
-          const error = url.searchParams.get('error');
+          const result = this.checkAuthorizationResponse(url.searchParams, state);
 
           // Send response to browser
           res.writeHead(200, { 'Content-Type': 'text/html' });
 
-          if (error) {
+          if ('error' in result) {
             res.end(`
               <html>
                 <body style="font-family: system-ui; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; background: #0a0a0a; color: #fff;">
                   <div style="text-align: center;">
-                    <h1>Authentication Failed</h1>
-                    <p>${error}</p>
+                    <h1>${escapeHtml(result.title)}</h1>
+                    <p>${escapeHtml(result.error)}</p>
                     <p>You can close this window.</p>
                   </div>
                 </body>
@@ -372,38 +1167,6 @@ export class AuthProvider {
             return;
           }
 
-          if (returnedState !== state) {
-            res.end(`
-              <html>
-                <body style="font-family: system-ui; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; background: #0a0a0a; color: #fff;">
-                  <div style="text-align: center;">
-                    <h1>Security Error</h1>
-                    <p>Invalid state parameter. Please try again.</p>
-                  </div>
-                </body>
-              </html>
-            `);
-            server.close();
-            resolve(null);
-            return;
-          }
-
-          if (!code) {
-            res.end(`
-              <html>
-                <body style="font-family: system-ui; display: flex; justify-content: center; align-items: center; height: 100vh; margin: 0; background: #0a0a0a; color: #fff;">
-                  <div style="text-align: center;">
-                    <h1>Error</h1>
-                    <p>No authorization code received.</p>
-                  </div>
-                </body>
-              </html>
-            `);
-            server.close();
-            resolve(null);
-            return;
-          }
-
           // Success - show loading message
           res.end(`
             <html>
@@ -419,31 +1182,7 @@ export class AuthProvider {
 
           // Exchange code for tokens
           try {
-            const tokens = await this.exchangeCodeForTokens(code, codeVerifier, redirectUri);
-
-            if (tokens.error) {
-              throw new Error(`${tokens.error}: ${tokens.message || ''}`);
-            }
-
-            // Store tokens
-            await this.context.secrets.store(AUTH_SECRET_KEY, tokens.access_token);
-            if (tokens.refresh_token) {
-              await this.context.secrets.store(REFRESH_SECRET_KEY, tokens.refresh_token);
-            }
-
-            // Store expiry time (default to 1 hour if not provided)
-            const expiresIn = tokens.expires_in || 3600;
-            const expiryTime = Date.now() + (expiresIn * 1000);
-            await this.context.globalState.update(TOKEN_EXPIRY_KEY, expiryTime);
-
-            // Fetch and store user data
-            const userData = await this.fetchUserData(tokens.access_token);
-            await this.context.globalState.update(USER_DATA_KEY, userData);
-
-            // Update context and notify
-            vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', true);
-            this._onDidChangeAuth.fire(true);
-
+            const userData = await this.completeAuthorization(result.code, codeVerifier, redirectUri, scope);
             server.close();
             resolve(userData);
           } catch (err) {
@@ -458,19 +1197,9 @@ export class AuthProvider {
 
       // Per RFC 8252, listen only on loopback interface (127.0.0.1)
       server.listen(port, '127.0.0.1', async () => {
-        // Build OAuth URL
-        const codeChallenge = this.generateCodeChallenge(codeVerifier);
-        const authUrl = new URL(`${INSFORGE_URL}/api/oauth/v1/authorize`);
-        authUrl.searchParams.set('client_id', this.clientId);
-        authUrl.searchParams.set('redirect_uri', redirectUri);
-        authUrl.searchParams.set('response_type', 'code');
-        authUrl.searchParams.set('scope', SCOPES);
-        authUrl.searchParams.set('state', state);
-        authUrl.searchParams.set('code_challenge', codeChallenge);
-        authUrl.searchParams.set('code_challenge_method', 'S256');
-
         // Open browser for OAuth
-        await vscode.env.openExternal(vscode.Uri.parse(authUrl.toString()));
+        const authUrl = this.buildAuthorizeUrl(redirectUri, state, codeVerifier, scope);
+        await vscode.env.openExternal(vscode.Uri.parse(authUrl));
         vscode.window.showInformationMessage('Complete login in your browser...');
       });
 
@@ -478,7 +1207,7 @@ export class AuthProvider {
       setTimeout(() => {
         server.close();
         resolve(null);
-      }, 5 * 60 * 1000);
+      }, LOGIN_TIMEOUT_MS);
 
       server.on('error', (err: NodeJS.ErrnoException) => {
         // This shouldn't happen since we check port availability first,
@@ -488,12 +1217,73 @@ export class AuthProvider {
     });
   }
 
+  /**
+   * Build the authorization URL (authorization code + PKCE)
+   */
+  private buildAuthorizeUrl(redirectUri: string, state: string, codeVerifier: string, scope: string): string {
+    const authUrl = new URL(getEndpoints().authorizeUrl);
+    authUrl.searchParams.set('client_id', this.getClientId());
+    authUrl.searchParams.set('redirect_uri', redirectUri);
+    authUrl.searchParams.set('response_type', 'code');
+    authUrl.searchParams.set('scope', scope);
+    authUrl.searchParams.set('state', state);
+    authUrl.searchParams.set('code_challenge', this.generateCodeChallenge(codeVerifier));
+    authUrl.searchParams.set('code_challenge_method', 'S256');
+    return authUrl.toString();
+  }
+
+  /**
+   * Validate the parameters of an authorization redirect (error, CSRF state, code)
+   */
+  private checkAuthorizationResponse(
+    params: URLSearchParams,
+    expectedState: string
+  ): { code: string } | { title: string; error: string } {
+    const error = params.get('error');
+    if (error) {
+      return { title: 'Authentication Failed', error: params.get('error_description') || error };
+    }
+
+    if (params.get('state') !== expectedState) {
+      return { title: 'Security Error', error: 'Invalid state parameter. Please try again.' };
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      return { title: 'Error', error: 'No authorization code received.' };
+    }
+
+    return { code };
+  }
+
+  /**
+   * Exchange the authorization code and store the session as the active account
+   */
+  private async completeAuthorization(
+    code: string,
+    codeVerifier: string,
+    redirectUri: string,
+    scope: string
+  ): Promise<UserData> {
+    const tokens = await this.exchangeCodeForTokens(code, codeVerifier, redirectUri);
+
+    if (tokens.error) {
+      throw new Error(`${tokens.error}: ${tokens.message || ''}`);
+    }
+
+    // Fetch user data, then store the session as the active account
+    // A token response without `scope` means the requested scopes were granted (RFC 6749 §5.1)
+    const userData = await this.fetchUserData(tokens.access_token);
+    await this.addAccount(userData, { ...tokens, scope: tokens.scope || scope });
+    return userData;
+  }
+
   private async exchangeCodeForTokens(code: string, codeVerifier: string, redirectUri: string): Promise<TokenResponse> {
     const body: Record<string, string> = {
       grant_type: 'authorization_code',
       code,
       redirect_uri: redirectUri,
-      client_id: this.clientId,
+      client_id: this.getClientId(),
       code_verifier: codeVerifier,
     };
 
@@ -502,7 +1292,7 @@ export class AuthProvider {
       body.client_secret = this.clientSecret;
     }
 
-    const response = await fetch(`${INSFORGE_URL}/api/oauth/v1/token`, {
+    const response = await fetch(getEndpoints().tokenUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -518,8 +1308,38 @@ export class AuthProvider {
     return response.json() as Promise<TokenResponse>;
   }
 
+  /**
+   * Store a freshly authorized account and make it active
+   */
+  private async addAccount(userData: UserData, tokens: TokenResponse, tokenSession = false): Promise<void> {
+    const account = this.buildAccount(userData, tokenSession);
+
+    // Save the account before its tokens so other windows know it when the secrets change
+    await this.saveAccount(account);
+    if (tokenSession) {
+      // Drop what an earlier OAuth session of the same user left behind
+      await this.context.secrets.delete(this.accountKey(REFRESH_SECRET_KEY, account));
+      await this.context.globalState.update(this.accountKey(TOKEN_EXPIRY_KEY, account), undefined);
+      await this.storeTokens(account, tokens);
+    } else {
+      // Default to 1 hour if expiry not provided
+      await this.storeTokens(account, { ...tokens, expires_in: tokens.expires_in || 3600 });
+    }
+    await this.switchAccount(account.key);
+  }
+
+  /**
+   * Sign in with a personal access token. The token is validated against the
+   * profile endpoint and used as-is for API calls (never refreshed).
+   */
+  async loginWithAccessToken(accessToken: string): Promise<UserData> {
+    const userData = await this.fetchUserData(accessToken);
+    await this.addAccount(userData, { access_token: accessToken }, true);
+    return userData;
+  }
+
   private async fetchUserData(accessToken: string): Promise<UserData> {
-    const response = await fetch(`${INSFORGE_URL}/auth/v1/profile`, {
+    const response = await fetch(`${getEndpoints().apiUrl}/auth/v1/profile`, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -533,76 +1353,55 @@ export class AuthProvider {
     return data.user;
   }
 
+  /**
+   * Log out of the active account. Other signed-in accounts stay signed in.
+   */
   async logout(): Promise<void> {
-    await this.context.secrets.delete(AUTH_SECRET_KEY);
-    await this.context.secrets.delete(REFRESH_SECRET_KEY);
-    await this.context.globalState.update(USER_DATA_KEY, undefined);
-
-    this.currentOrg = null;
-    this.currentProject = null;
+    const account = this.getActiveAccount();
+    if (!account) {
+      return;
+    }
 
-    vscode.commands.executeCommand('setContext', 'insforge.isLoggedIn', false);
-    this._onDidChangeAuth.fire(false);
+    await this.removeAccount(account);
 
-    vscode.window.showInformationMessage('Logged out from InsForge');
+    const next = this.getActiveAccount();
+    vscode.window.showInformationMessage(
+      next
+        ? `Logged out of ${account.user.email}. Switched to ${next.user.email}`
+        : 'Logged out from InsForge'
+    );
   }
 
+  /**
+   * List organizations. Throws an InsForgeApiError subclass on failure.
+   */
   async getOrganizations(): Promise<Organization[]> {
-    try {
-      const response = await this.authenticatedFetch(`${INSFORGE_URL}/organizations/v1`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch organizations: ${response.statusText}`);
-      }
-
-      const data = await response.json() as { organizations: Organization[] };
-      return data.organizations || [];
-    } catch (error) {
-      if (error instanceof Error && error.message === 'UNAUTHORIZED') {
-        // Token invalid, auth state already cleared by authenticatedFetch
-        return [];
-      }
-      console.error('Failed to fetch organizations:', error);
-      return [];
-    }
+    return this.api.getOrganizations();
   }
 
+  /**
+   * List an organization's projects. Throws an InsForgeApiError subclass on failure.
+   */
   async getProjects(organizationId: string): Promise<Project[]> {
-    try {
-      const response = await this.authenticatedFetch(`${INSFORGE_URL}/organizations/v1/${organizationId}/projects`);
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch projects: ${response.statusText}`);
-      }
-
-      const data = await response.json() as { projects: Project[] };
-      return data.projects || [];
-    } catch (error) {
-      if (error instanceof Error && error.message === 'UNAUTHORIZED') {
-        return [];
-      }
-      console.error('Failed to fetch projects:', error);
-      return [];
-    }
+    return this.api.getProjects(organizationId);
   }
 
-  async getProjectApiKey(projectId: string): Promise<string | null> {
-    try {
-      const response = await this.authenticatedFetch(`${INSFORGE_URL}/projects/v1/${projectId}/access-api-key`);
-
-      if (!response.ok) {
-        return null;
-      }
+  /**
+   * Get a project's access API key. Throws an InsForgeApiError subclass on failure.
+   */
+  async getProjectApiKey(projectId: string): Promise<string> {
+    const apiKey = await this.api.getProjectApiKey(projectId);
+    registerSecret(apiKey);
+    return apiKey;
+  }
 
-      const data = await response.json() as { access_api_key: string };
-      return data.access_api_key;
-    } catch (error) {
-      if (error instanceof Error && error.message === 'UNAUTHORIZED') {
-        return null;
-      }
-      console.error('Failed to fetch API key:', error);
-      return null;
-    }
+  /**
+   * Regenerate a project's access API key. Throws an InsForgeApiError subclass on failure.
+   */
+  async rotateProjectApiKey(projectId: string): Promise<string> {
+    const apiKey = await this.api.rotateProjectApiKey(projectId);
+    registerSecret(apiKey);
+    return apiKey;
   }
 
   getCurrentOrg(): Organization | null {
@@ -621,8 +1420,88 @@ export class AuthProvider {
     this.currentProject = project;
   }
 
+  /**
+   * Select an org/project and remember it for this workspace
+   */
+  async selectProject(org: Organization, project: Project): Promise<void> {
+    this.currentOrg = org;
+    this.currentProject = project;
+
+    const binding: ProjectBinding = { organizationId: org.id, projectId: project.id };
+    await this.context.workspaceState.update(SELECTED_PROJECT_KEY, binding);
+
+    this._onDidChangeProject.fire(project);
+  }
+
+  /**
+   * Restore the workspace's project after a reload or login. A checked-in
+   * .insforge/project.json wins over the last selection made in this workspace.
+   * The project is re-resolved through the API so stale or inaccessible IDs are dropped.
+   */
+  async restoreSelectedProject(): Promise<boolean> {
+    if (this.currentProject || !await this.isAuthenticated()) {
+      return false;
+    }
+
+    // In multi-root workspaces, the folder of the active editor, then the first bound folder
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    const activeBinding = activeFolder ? await readProjectBinding(activeFolder.uri) : undefined;
+    const fileBinding = activeBinding || (await readWorkspaceBindings()).find(entry => entry.binding)?.binding;
+    const savedBinding = this.context.workspaceState.get<ProjectBinding>(SELECTED_PROJECT_KEY);
+
+    for (const binding of [fileBinding, savedBinding]) {
+      if (!binding) {
+        continue;
+      }
+
+      let resolved: { org: Organization; project: Project } | null;
+      try {
+        resolved = await this.resolveProjectBinding(binding);
+      } catch (error) {
+        // Keep the binding; the API may just be unreachable right now
+        console.warn('[AuthProvider] Could not restore selected project:', error);
+        return false;
+      }
+
+      if (resolved) {
+        this.currentOrg = resolved.org;
+        this.currentProject = resolved.project;
+        this._onDidChangeProject.fire(resolved.project);
+        return true;
+      }
+
+      if (binding === fileBinding) {
+        vscode.window.showWarningMessage(
+          `The project in ${PROJECT_BINDING_FILE} was not found or is not accessible with ${this.getUserData()?.email ?? 'this account'}.`
+        );
+      } else {
+        await this.context.workspaceState.update(SELECTED_PROJECT_KEY, undefined);
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Look up the org and project a binding names. Returns null if either is gone or not accessible.
+   */
+  async resolveProjectBinding(
+    binding: ProjectBinding
+  ): Promise<{ org: Organization; project: Project } | null> {
+    const orgs = await this.getOrganizations();
+    const org = orgs.find(o => o.id === binding.organizationId);
+    if (!org) {
+      return null;
+    }
+
+    const projects = await this.getProjects(org.id);
+    const project = projects.find(p => p.id === binding.projectId);
+    return project ? { org, project } : null;
+  }
+
   getUserData(): UserData | undefined {
-    return this.context.globalState.get<UserData>(USER_DATA_KEY);
+    return this.getActiveAccount()?.user;
   }
 
   /**
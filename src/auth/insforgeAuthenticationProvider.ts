@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { Account, AuthProvider } from './authProvider';
+
+export const AUTH_PROVIDER_ID = 'insforge';
+export const AUTH_PROVIDER_LABEL = 'InsForge';
+
+/**
+ * Exposes InsForge accounts through the VS Code authentication API so other extensions
+ * can call `vscode.authentication.getSession('insforge', scopes)` and the sessions show
+ * up in the Accounts menu. Token storage and refresh stay in AuthProvider.
+ */
+export class InsForgeAuthenticationProvider implements vscode.AuthenticationProvider, vscode.Disposable {
+  private _onDidChangeSessions = new vscode.EventEmitter<vscode.AuthenticationProviderAuthenticationSessionsChangeEvent>();
+  readonly onDidChangeSessions = this._onDidChangeSessions.event;
+
+  private _disposables: vscode.Disposable[] = [];
+  private _knownSessions: Map<string, vscode.AuthenticationSession> = new Map();
+
+  constructor(private readonly _authProvider: AuthProvider) {
+    this._disposables.push(_authProvider.onDidChangeAuth(() => this.checkForUpdates()));
+    // A refreshed access token is a changed session for consumers holding the old one
+    this._disposables.push(_authProvider.onDidChangeTokens(() => this.checkForUpdates()));
+    this.checkForUpdates();
+  }
+
+  async getSessions(
+    scopes?: readonly string[],
+    _options?: vscode.AuthenticationProviderSessionOptions
+  ): Promise<vscode.AuthenticationSession[]> {
+    const sessions: vscode.AuthenticationSession[] = [];
+
+    for (const account of this._authProvider.getAccounts()) {
+      if (scopes && !this.hasScopes(account, scopes)) {
+        continue;
+      }
+
+      // Other extensions query sessions silently: return what is stored, without refreshing
+      // (which could sign the account out and prompt). The scheduled refresh keeps tokens fresh.
+      const accessToken = await this._authProvider.getAccessToken(account);
+      if (accessToken) {
+        sessions.push(this.toSession(account, accessToken));
+      }
+    }
+
+    return sessions;
+  }
+
+  async createSession(scopes: readonly string[]): Promise<vscode.AuthenticationSession> {
+    const loggedIn = await this._authProvider.login(undefined, [...scopes]);
+    const account = this._authProvider.getActiveAccount();
+
+    if (!loggedIn || !account) {
+      throw new Error('InsForge login was cancelled or failed');
+    }
+
+    if (!this.hasScopes(account, scopes)) {
+      throw new Error(`InsForge session does not grant the requested scopes: ${scopes.join(' ')}`);
+    }
+
+    const accessToken = await this._authProvider.getValidAccessToken(account);
+    if (!accessToken) {
+      throw new Error('InsForge login did not return an access token');
+    }
+
+    return this.toSession(account, accessToken);
+  }
+
+  async removeSession(sessionId: string): Promise<void> {
+    await this._authProvider.signOut(sessionId);
+  }
+
+  dispose(): void {
+    this._disposables.forEach(d => d.dispose());
+    this._onDidChangeSessions.dispose();
+  }
+
+  private hasScopes(account: Account, scopes: readonly string[]): boolean {
+    const granted = this._authProvider.getGrantedScopes(account);
+    return scopes.every(scope => granted.includes(scope));
+  }
+
+  private toSession(account: Account, accessToken: string): vscode.AuthenticationSession {
+    return {
+      id: account.key,
+      accessToken,
+      account: {
+        id: account.key,
+        label: account.tokenSession ? `${account.user.email} (access token)` : account.user.email,
+      },
+      scopes: this._authProvider.getGrantedScopes(account),
+    };
+  }
+
+  /**
+   * Diff the signed-in accounts against the last known sessions and notify VS Code
+   */
+  private async checkForUpdates(): Promise<void> {
+    const previous = this._knownSessions;
+    const current: Map<string, vscode.AuthenticationSession> = new Map();
+
+    for (const account of this._authProvider.getAccounts()) {
+      const accessToken = await this._authProvider.getAccessToken(account);
+      if (accessToken) {
+        current.set(account.key, this.toSession(account, accessToken));
+      }
+    }
+
+    const added = [...current.values()].filter(s => !previous.has(s.id));
+    const removed = [...previous.values()].filter(s => !current.has(s.id));
+    const changed = [...current.values()].filter(s => previous.has(s.id) && previous.get(s.id)!.accessToken !== s.accessToken);
+
+    this._knownSessions = current;
+
+    if (added.length || removed.length || changed.length) {
+      this._onDidChangeSessions.fire({ added, removed, changed });
+    }
+  }
+}
@@ -1,7 +1,19 @@
 import * as vscode from 'vscode';
-import { AuthProvider, Organization } from '../auth/authProvider';
+import { AuthProvider } from '../auth/authProvider';
+import { Organization, Project } from '../api/insforgeClient';
+import { describeApiError } from '../api/errors';
 import { ProjectsViewProvider } from '../views/projectsViewProvider';
-import { installMcp } from './installMcp';
+import {
+  checkMcpUpdates,
+  findInstalledMcpServers,
+  installMcp,
+  McpStatusCallbacks,
+  repairMcpInstallation,
+  rotateProjectApiKey,
+  uninstallMcp,
+} from './installMcp';
+import { getDashboardUrl } from '../utils/endpoints';
+import { PROJECT_BINDING_FILE, writeProjectBinding } from '../utils/projectBinding';
 
 /**
  * Check if user is authenticated, prompting login if not.
@@ -26,6 +38,20 @@ async function ensureAuthenticated(
   return true;
 }
 
+/**
+ * Run a platform API call, showing a descriptive error message if it fails.
+ * Returns undefined on failure.
+ */
+async function withApiErrors<T>(call: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await call();
+  } catch (error) {
+    console.error('[commands] API call failed:', error);
+    vscode.window.showErrorMessage(describeApiError(error));
+    return undefined;
+  }
+}
+
 /**
  * Pick an organization ID. If only one org exists, returns it directly.
  * Returns undefined if the user cancels the picker.
@@ -48,6 +74,35 @@ async function pickOrganizationId(
   return orgPick?.orgId;
 }
 
+/**
+ * Mirror MCP verification in the sidebar and, once verified, wait for the first real MCP call
+ */
+function createMcpStatusCallbacks(
+  project: Project,
+  authProvider: AuthProvider,
+  projectsViewProvider: ProjectsViewProvider
+): McpStatusCallbacks {
+  return {
+    onVerifying: (projectId) => {
+      projectsViewProvider.markMcpVerifying(projectId);
+    },
+    onVerified: async (projectId, tools) => {
+      projectsViewProvider.markMcpVerified(projectId, tools);
+
+      // Start socket listener to wait for real MCP connection
+      try {
+        const apiKey = await authProvider.getProjectApiKey(projectId);
+        projectsViewProvider.startSocketListener(project, apiKey);
+      } catch (err) {
+        console.error('[installMcp] Failed to start MCP socket listener:', err);
+      }
+    },
+    onFailed: (projectId, error) => {
+      projectsViewProvider.markMcpFailed(projectId, error);
+    }
+  };
+}
+
 export function registerCommands(
   context: vscode.ExtensionContext,
   authProvider: AuthProvider,
@@ -62,6 +117,61 @@ export function registerCommands(
     })
   );
 
+  // Login with the device code flow (for remote/headless environments)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.loginWithDeviceCode', async () => {
+      await authProvider.login('deviceCode');
+      projectsViewProvider.refresh();
+    })
+  );
+
+  // Login with a personal access token (CI, scripted setups)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.loginWithToken', async () => {
+      const token = await vscode.window.showInputBox({
+        title: 'Login with Token',
+        prompt: 'Paste an InsForge personal access token',
+        password: true,
+        ignoreFocusOut: true,
+        validateInput: (value) => value.trim() ? undefined : 'Token is required',
+      });
+
+      if (!token) {
+        return;
+      }
+
+      try {
+        const userData = await authProvider.loginWithAccessToken(token.trim());
+        vscode.window.showInformationMessage(`Logged in as ${userData.email} (access token)`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Login failed: ${error instanceof Error ? error.message : error}`);
+      }
+      projectsViewProvider.refresh();
+      updateStatusBar();
+    })
+  );
+
+  // Shown in the user menu while the active account uses a personal access token
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.showTokenSession', async () => {
+      const account = authProvider.getActiveAccount();
+      if (!account?.tokenSession) {
+        return;
+      }
+
+      const selection = await vscode.window.showInformationMessage(
+        `Signed in as ${account.user.email} with a personal access token. Token sessions are not refreshed; log in with a new token when it expires.`,
+        'Replace Token',
+        'Logout'
+      );
+      if (selection === 'Replace Token') {
+        await vscode.commands.executeCommand('insforge.loginWithToken');
+      } else if (selection === 'Logout') {
+        await vscode.commands.executeCommand('insforge.logout');
+      }
+    })
+  );
+
   // Logout command
   context.subscriptions.push(
     vscode.commands.registerCommand('insforge.logout', async () => {
@@ -71,10 +181,56 @@ export function registerCommands(
     })
   );
 
+  // Add another account (login while keeping existing accounts signed in)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.addAccount', async () => {
+      await authProvider.login();
+      projectsViewProvider.refresh();
+      updateStatusBar();
+    })
+  );
+
+  // Switch between signed-in accounts
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.switchAccount', async () => {
+      const accounts = authProvider.getAccounts();
+      const active = authProvider.getActiveAccount();
+
+      const items: Array<vscode.QuickPickItem & { accountKey?: string }> = accounts.map((account) => ({
+        label: `${account.key === active?.key ? '$(check)' : '$(account)'} ${account.user.email}`,
+        description: account.tokenSession
+          ? [account.user.name, 'access token'].filter(Boolean).join(' · ')
+          : account.user.name,
+        accountKey: account.key,
+      }));
+      items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+      items.push({ label: '$(add) Add Account...' });
+
+      const pick = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select an InsForge account',
+        title: 'Switch Account',
+      });
+
+      if (!pick) {
+        return;
+      }
+
+      if (!pick.accountKey) {
+        await vscode.commands.executeCommand('insforge.addAccount');
+        return;
+      }
+
+      if (pick.accountKey !== active?.key) {
+        await authProvider.switchAccount(pick.accountKey);
+        updateStatusBar();
+      }
+    })
+  );
+
   // Refresh command
   context.subscriptions.push(
     vscode.commands.registerCommand('insforge.refresh', () => {
-      projectsViewProvider.refresh();
+      projectsViewProvider.refresh(true);
     })
   );
 
@@ -86,7 +242,10 @@ export function registerCommands(
       }
 
       // Get organizations
-      const orgs = await authProvider.getOrganizations();
+      const orgs = await withApiErrors(() => authProvider.getOrganizations());
+      if (!orgs) {
+        return;
+      }
       if (orgs.length === 0) {
         vscode.window.showWarningMessage('No organizations found');
         return;
@@ -107,7 +266,10 @@ export function registerCommands(
       }
 
       // Get projects
-      const projects = await authProvider.getProjects(orgPick.org.id);
+      const projects = await withApiErrors(() => authProvider.getProjects(orgPick.org.id));
+      if (!projects) {
+        return;
+      }
       if (projects.length === 0) {
         vscode.window.showWarningMessage('No projects found in this organization');
         return;
@@ -127,9 +289,8 @@ export function registerCommands(
         return;
       }
 
-      // Set current org and project
-      authProvider.setCurrentOrg(orgPick.org);
-      authProvider.setCurrentProject(projectPick.project);
+      // Set current org and project (remembered for this workspace)
+      await authProvider.selectProject(orgPick.org, projectPick.project);
 
       updateStatusBar();
       vscode.window.showInformationMessage(
@@ -138,6 +299,48 @@ export function registerCommands(
     })
   );
 
+  // Write the selected project to .insforge/project.json so it can be checked in.
+  // In multi-root workspaces each folder has its own binding; the sidebar passes the folder.
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.bindProjectToWorkspace', async (folderUri?: vscode.Uri) => {
+      const org = authProvider.getCurrentOrg();
+      const project = authProvider.getCurrentProject();
+      if (!org || !project) {
+        vscode.window.showWarningMessage('Please select a project first');
+        return;
+      }
+
+      const folders = vscode.workspace.workspaceFolders || [];
+      let folder = folderUri ? vscode.workspace.getWorkspaceFolder(folderUri) : folders[0];
+      if (!folderUri && folders.length > 1) {
+        const folderPick = await vscode.window.showQuickPick(
+          folders.map(f => ({ label: f.name, description: f.uri.fsPath, folder: f })),
+          { placeHolder: `Select the workspace folder to bind to ${project.name}`, title: 'Bind Project to Folder' }
+        );
+        if (!folderPick) {
+          return;
+        }
+        folder = folderPick.folder;
+      }
+      if (!folder) {
+        vscode.window.showWarningMessage('Open a folder to bind it to an InsForge project');
+        return;
+      }
+
+      const fileUri = await writeProjectBinding(folder.uri, {
+        organizationId: org.id,
+        projectId: project.id,
+      });
+      const selection = await vscode.window.showInformationMessage(
+        `Bound ${folder.name} to ${project.name} in ${PROJECT_BINDING_FILE}`,
+        'Open File'
+      );
+      if (selection === 'Open File') {
+        vscode.window.showTextDocument(fileUri);
+      }
+    })
+  );
+
   // Open org dashboard pages (subscription, usage)
   for (const { command, page } of [
     { command: 'insforge.openSubscription', page: 'subscription' },
@@ -149,7 +352,10 @@ export function registerCommands(
           return;
         }
 
-        const orgs = await authProvider.getOrganizations();
+        const orgs = await withApiErrors(() => authProvider.getOrganizations());
+        if (!orgs) {
+          return;
+        }
         if (orgs.length === 0) {
           vscode.window.showWarningMessage('No organizations found');
           return;
@@ -158,16 +364,18 @@ export function registerCommands(
         const orgId = await pickOrganizationId(orgs, `Select an organization to view ${page}`);
         if (!orgId) return;
 
-        const url = `https://insforge.dev/dashboard/organization/${orgId}/${page}`;
+        const url = getDashboardUrl(`organization/${orgId}/${page}`);
         vscode.env.openExternal(vscode.Uri.parse(url));
       })
     );
   }
 
-  // Install MCP command - uses current project
+  // Install MCP command - uses current project unless the sidebar passes one,
+  // and the workspace folder to put project-local configs in
   context.subscriptions.push(
-    vscode.commands.registerCommand('insforge.installMcp', async () => {
-      const project = authProvider.getCurrentProject();
+    vscode.commands.registerCommand('insforge.installMcp', async (target?: Project, folderUri?: vscode.Uri) => {
+      const project = target || authProvider.getCurrentProject();
+      const folder = folderUri && vscode.workspace.getWorkspaceFolder(folderUri);
 
       if (!project) {
         if (!await ensureAuthenticated(authProvider, projectsViewProvider)) {
@@ -177,31 +385,103 @@ export function registerCommands(
         return;
       }
 
-      const success = await installMcp(project, authProvider, context.extensionUri, {
+      const success = await installMcp(project, authProvider, context, {
+        ...createMcpStatusCallbacks(project, authProvider, projectsViewProvider),
         onInstallationStarting: async () => {
           // Reset all MCP states and guide card when starting new installation
           await projectsViewProvider.resetMcpStatesForNewInstallation();
         },
-        onVerifying: (projectId) => {
-          projectsViewProvider.markMcpVerifying(projectId);
-        },
-        onVerified: async (projectId, tools) => {
-          projectsViewProvider.markMcpVerified(projectId, tools);
-
-          // Start socket listener to wait for real MCP connection
-          try {
-            const apiKey = await authProvider.getProjectApiKey(projectId);
-            if (apiKey && project) {
-              projectsViewProvider.startSocketListener(project, apiKey);
-            }
-          } catch (err) {
-            console.error('[installMcp] Failed to start MCP socket listener:', err);
-          }
-        },
-        onFailed: (projectId, error) => {
-          projectsViewProvider.markMcpFailed(projectId, error);
-        }
+      }, { folder });
+
+      if (success) {
+        projectsViewProvider.scanMcpInstallations();
+      }
+    })
+  );
+
+  // Uninstall MCP command - all InsForge entries, or only those of the project passed by the sidebar
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.uninstallMcp', async (project?: Project) => {
+      const removed = await uninstallMcp(context, project, {
+        onRemoving: servers => projectsViewProvider.forgetMcpConfigs(servers),
       });
+      if (removed.length === 0) {
+        return;
+      }
+      projectsViewProvider.scanMcpInstallations();
+
+      // Projects with no entry left in any client go back to "Install MCP"
+      const remaining = await findInstalledMcpServers(context.globalStorageUri);
+      const uninstalledUrls = removed
+        .map(server => server.apiBaseUrl)
+        .filter((url): url is string => !!url && !remaining.some(server => server.apiBaseUrl === url));
+      await projectsViewProvider.resetMcpStatusForApiBaseUrls(uninstalledUrls);
+    })
+  );
+
+  // Rotate a project's API key and update the clients that use it - current project unless the sidebar passes one
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.rotateProjectApiKey', async (target?: Project) => {
+      const project = target || authProvider.getCurrentProject();
+
+      if (!project) {
+        if (!await ensureAuthenticated(authProvider, projectsViewProvider)) {
+          return;
+        }
+        vscode.window.showWarningMessage('Please select a project first');
+        return;
+      }
+
+      const apiKey = await rotateProjectApiKey(
+        project,
+        authProvider,
+        context,
+        createMcpStatusCallbacks(project, authProvider, projectsViewProvider)
+      );
+      if (apiKey) {
+        projectsViewProvider.scanMcpInstallations();
+      }
+    })
+  );
+
+  // Put back MCP configs that were changed or removed after verification - current project unless the sidebar passes one
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.repairMcp', async (target?: Project) => {
+      const project = target || authProvider.getCurrentProject();
+
+      if (!project) {
+        if (!await ensureAuthenticated(authProvider, projectsViewProvider)) {
+          return;
+        }
+        vscode.window.showWarningMessage('Please select a project first');
+        return;
+      }
+
+      const drifted = await projectsViewProvider.getDriftedMcpConfigs(project.id);
+      if (drifted.length === 0) {
+        vscode.window.showInformationMessage(`InsForge MCP for ${project.name} matches what was verified. Nothing to repair.`);
+        return;
+      }
+
+      const repaired = await repairMcpInstallation(
+        project,
+        drifted,
+        authProvider,
+        createMcpStatusCallbacks(project, authProvider, projectsViewProvider)
+      );
+      if (repaired) {
+        projectsViewProvider.scanMcpInstallations();
+      }
+    })
+  );
+
+  // Compare installed MCP servers with insforge.mcpServerVersion and offer to update them
+  context.subscriptions.push(
+    vscode.commands.registerCommand('insforge.checkMcpUpdates', async (options?: { silent?: boolean }) => {
+      const updated = await checkMcpUpdates(context, options);
+      if (updated.length > 0) {
+        projectsViewProvider.scanMcpInstallations();
+      }
     })
   );
 
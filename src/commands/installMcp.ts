@@ -1,15 +1,45 @@
 import * as vscode from 'vscode';
-import * as os from 'os';
 import { spawn } from 'child_process';
-import { AuthProvider, Project } from '../auth/authProvider';
+import { AuthProvider } from '../auth/authProvider';
+import { Project } from '../api/insforgeClient';
+import { describeApiError } from '../api/errors';
 import { verifyMcpInstallation } from '../utils/mcpVerifier';
-import { buildTerminalOutput, InstallerResult } from '../utils/terminalOutput';
-import { tryOpenChatWithPrompt, usesTerminalChat } from '../utils/chatOpener';
+import { getProjectApiBaseUrl } from '../utils/endpoints';
+import { buildTerminalOutput, ClientInstallResult, InstallerResult } from '../utils/terminalOutput';
+import { InstallerTerminal } from '../utils/installerTerminal';
+import { redact, registerSecret } from '../utils/redact';
+import { stopMcpSocketListener } from '../utils/mcpSocketListener';
+import { readWorkspaceBindings } from '../utils/projectBinding';
+import { McpConfigSnapshot } from '../utils/mcpConfigWatcher';
+import {
+  fetchMcpReleases,
+  getMcpPackageSpec,
+  getMcpServerVersion,
+  MCP_PACKAGE,
+  McpReleases,
+  resolveMcpVersion,
+} from '../utils/mcpVersion';
+import { tryOpenChatWithPrompt } from '../utils/chatOpener';
+import { detectMcpClients, getMcpClient, getMcpClientIcon, getMcpClients, getMcpConfigLocation, McpClientDefinition } from '../utils/mcpClients';
+import {
+  displayConfigPath,
+  findInsForgeServers,
+  McpConfigLocation,
+  MCP_SERVER_NAME,
+  McpTransport,
+  previewAndApplyMcpConfig,
+  readConfigFile,
+  withInsForgeServer,
+  withoutServers,
+  withServerApiKey,
+  withServerPackageVersion,
+  writeConfigFile,
+} from '../utils/mcpConfig';
 
 /**
- * MCP installation status
+ * MCP installation status. 'drifted': a verified config was changed or removed afterwards.
  */
-export type McpStatus = 'none' | 'verifying' | 'verified' | 'failed';
+export type McpStatus = 'none' | 'verifying' | 'verified' | 'failed' | 'drifted';
 
 /**
  * Callbacks for MCP installation status changes
@@ -22,57 +52,125 @@ export interface McpStatusCallbacks {
   onFailed?: (projectId: string, error: string) => void;
 }
 
-/**
- * Check if current VS Code theme is dark
- */
-function isDarkTheme(): boolean {
-  const theme = vscode.window.activeColorTheme;
-  return theme.kind === vscode.ColorThemeKind.Dark ||
-    theme.kind === vscode.ColorThemeKind.HighContrast;
-}
+// Passed to the npx installer instead of the API key, which would be visible in `ps`
+// on the command line; the real key is written into the config afterwards
+const API_KEY_PLACEHOLDER = '__INSFORGE_API_KEY__';
 
 // MCP verification constants
 const MCP_VERIFY_MAX_ATTEMPTS = 3;
 const MCP_VERIFY_DELAY_MS = 2000;
 const MCP_RETRY_MAX_ATTEMPTS = 3;
 
-// Supported MCP clients from @insforge/install
-const MCP_CLIENTS = [
-  { id: 'cursor', label: 'Cursor', description: 'Cursor IDE (~/.cursor/mcp.json)', projectLocal: false, icon: 'cursor' },
-  { id: 'claude-code', label: 'Claude Code', description: 'Project-local (.mcp.json in workspace)', projectLocal: true, icon: 'claude_code' },
-  { id: 'antigravity', label: 'Google Antigravity', description: 'Google Antigravity (~/.gemini/antigravity/mcp_config.json)', projectLocal: false, icon: 'antigravity' },
-  { id: 'windsurf', label: 'Windsurf', description: 'Windsurf IDE (~/.codeium/windsurf/mcp_config.json)', projectLocal: false, icon: 'windsurf' },
-  { id: 'cline', label: 'Cline', description: 'Cline VS Code Extension (VS Code globalStorage)', projectLocal: false, icon: 'cline' },
-  { id: 'roocode', label: 'Roo Code', description: 'Roo-Code VS Code Extension (VS Code globalStorage)', projectLocal: false, icon: 'roo_code' },
-  { id: 'copilot', label: 'GitHub Copilot', description: 'Project-local (.vscode/mcp.json)', projectLocal: true, icon: 'copilot' },
-  { id: 'codex', label: 'Codex', description: 'OpenAI Codex CLI (managed via codex mcp add)', projectLocal: false, icon: 'codex' },
-  { id: 'trae', label: 'Trae', description: 'Trae IDE (Trae/User/mcp.json)', projectLocal: false, icon: 'trae' },
-  { id: 'qoder', label: 'Qoder', description: 'Qoder IDE (Qoder/SharedClientCache/mcp.json)', projectLocal: false, icon: 'qoder' },
-  { id: 'kiro', label: 'Kiro', description: 'Kiro IDE (~/.kiro/settings/mcp.json)', projectLocal: false, icon: 'kiro' },
-] as const;
+// Transport picked last time, offered first on the next install
+const MCP_TRANSPORT_KEY = 'insforge.mcpTransport';
+
+const MCP_TRANSPORT_LABELS: Record<McpTransport, string> = {
+  stdio: 'Local (stdio)',
+  http: 'Remote (Streamable HTTP)',
+  sse: 'Remote (SSE)',
+};
+
+// Result recorded for clients whose preview was dismissed or that were skipped after cancelling
+const SKIPPED_RESULT: InstallerResult = { success: false, exitCode: null, stdout: '', stderr: '', error: 'Skipped' };
+
+/**
+ * An InsForge MCP server entry found in an AI client's config
+ */
+export interface InstalledMcpServer {
+  clientId: string;
+  clientLabel: string;
+  location: McpConfigLocation;
+  /** Key of the entry in the config (usually 'insforge') */
+  name: string;
+  apiBaseUrl?: string;
+  apiKey?: string;
+  /** Version or tag of @insforge/mcp it launches ('' if unversioned) */
+  version?: string;
+  transport: McpTransport;
+  /** Workspace folder (fsPath) whose project-local config holds the entry */
+  workspaceFolder?: string;
+}
+
+/**
+ * Scan the config of every supported client (project-local ones in each workspace folder)
+ * for InsForge server entries. Unreadable or malformed configs are skipped.
+ */
+export async function findInstalledMcpServers(globalStorageUri: vscode.Uri): Promise<InstalledMcpServer[]> {
+  const workspaceFolders = vscode.workspace.workspaceFolders?.map(folder => folder.uri.fsPath) || [];
+  const installed: InstalledMcpServer[] = [];
+
+  for (const client of getMcpClients()) {
+    const folders = client.projectLocal ? workspaceFolders : [undefined];
+    for (const workspaceFolder of folders) {
+      const location = getMcpConfigLocation(client.id, { workspaceFolder, globalStorageUri });
+      if (!location) {
+        continue;
+      }
+
+      try {
+        const text = await readConfigFile(location.uri);
+        if (!text) {
+          continue;
+        }
+        for (const server of findInsForgeServers(text, location.format)) {
+          registerSecret(server.apiKey);
+          installed.push({
+            clientId: client.id,
+            clientLabel: client.label,
+            location,
+            name: server.name,
+            apiBaseUrl: server.apiBaseUrl,
+            apiKey: server.apiKey,
+            version: server.version,
+            transport: server.transport,
+            workspaceFolder,
+          });
+        }
+      } catch (error) {
+        console.warn(`[installMcp] Skipping ${location.uri.fsPath}:`, redact(String(error)));
+      }
+    }
+  }
+
+  return installed;
+}
 
 /**
- * Run the MCP installer and wait for it to complete
+ * Group server entries by the config file that holds them
+ */
+function groupByConfigFile(servers: InstalledMcpServer[]): InstalledMcpServer[][] {
+  const byFile: Map<string, InstalledMcpServer[]> = new Map();
+  for (const server of servers) {
+    const key = server.location.uri.toString();
+    byFile.set(key, [...(byFile.get(key) || []), server]);
+  }
+  return [...byFile.values()];
+}
+
+/**
+ * Run the MCP installer and wait for it to complete. Output is also passed to
+ * `onOutput` as it arrives. The config gets API_KEY_PLACEHOLDER as its API key.
  */
 async function runInstaller(
   clientId: string,
-  apiKey: string,
   apiBaseUrl: string,
   workspaceFolder?: string,
-  cancellationToken?: vscode.CancellationToken
+  cancellationToken?: vscode.CancellationToken,
+  onOutput?: (data: string) => void
 ): Promise<InstallerResult> {
   return new Promise((resolve) => {
     const args = [
       '@insforge/install',
       '--client', clientId,
-      '--env', `API_KEY=${apiKey}`,
+      '--env', `API_KEY=${API_KEY_PLACEHOLDER}`,
       '--env', `API_BASE_URL=${apiBaseUrl}`,
       '-y'
     ];
 
+    // The output goes to a terminal, keep colors even though stdout isn't a TTY
     const spawnOptions: { cwd?: string; shell: boolean; env: NodeJS.ProcessEnv } = {
       shell: true,
-      env: { ...process.env },
+      env: { ...process.env, FORCE_COLOR: '1' },
     };
 
     if (workspaceFolder) {
@@ -86,10 +184,12 @@ async function runInstaller(
 
     installerProcess.stdout?.on('data', (data: Buffer) => {
       stdout += data.toString();
+      onOutput?.(data.toString());
     });
 
     installerProcess.stderr?.on('data', (data: Buffer) => {
       stderr += data.toString();
+      onOutput?.(data.toString());
     });
 
     installerProcess.on('error', (err: Error) => {
@@ -127,139 +227,388 @@ async function runInstaller(
   });
 }
 
+/**
+ * Ask which transport to configure, starting with the last one used.
+ * Remote options name the selected clients that don't support them.
+ */
+async function pickTransport(clients: McpClientDefinition[], lastUsed: McpTransport): Promise<McpTransport | undefined> {
+  const details: Record<McpTransport, string> = {
+    stdio: 'Runs npx @insforge/mcp on this machine (needs Node.js)',
+    http: "Connects to the project's hosted MCP endpoint, no local Node.js needed",
+    sse: 'Hosted endpoint over Server-Sent Events, for clients without Streamable HTTP support',
+  };
+
+  const items = (Object.keys(MCP_TRANSPORT_LABELS) as McpTransport[]).map(transport => {
+    const unsupported = transport === 'stdio'
+      ? []
+      : clients.filter(client => !client.remote?.[transport]).map(client => client.label);
+    return {
+      label: `${transport === 'stdio' ? '$(terminal)' : '$(cloud)'} ${MCP_TRANSPORT_LABELS[transport]}`,
+      description: unsupported.length > 0 ? `not supported by ${unsupported.join(', ')}` : undefined,
+      detail: details[transport],
+      transport,
+    };
+  }).sort((a, b) => Number(b.transport === lastUsed) - Number(a.transport === lastUsed));
+
+  const pick = await vscode.window.showQuickPick(items, {
+    placeHolder: 'How should the AI clients connect to InsForge MCP?',
+    title: 'MCP Transport',
+  });
+  return pick?.transport;
+}
+
+/**
+ * Choose the workspace folders that get project-local configs. With several folders, the ones
+ * bound to the project (by .insforge/project.json) are preselected. A single folder bound to
+ * another project needs confirmation. Returns [] if no folder is open, undefined if cancelled.
+ */
+async function pickWorkspaceFolders(project: Project): Promise<vscode.WorkspaceFolder[] | undefined> {
+  const bindings = await readWorkspaceBindings();
+
+  if (bindings.length === 1) {
+    const { folder, binding } = bindings[0];
+    if (binding && binding.projectId !== project.id) {
+      const confirm = await vscode.window.showWarningMessage(
+        `${folder.name} is bound to another InsForge project. Install MCP for ${project.name} there anyway?`,
+        { modal: true },
+        'Install Anyway'
+      );
+      return confirm === 'Install Anyway' ? [folder] : undefined;
+    }
+    return [folder];
+  }
+  if (bindings.length === 0) {
+    return [];
+  }
+
+  const picks = await vscode.window.showQuickPick(
+    bindings.map(({ folder, binding }) => ({
+      label: folder.name,
+      description: !binding
+        ? undefined
+        : binding.projectId === project.id ? `bound to ${project.name}` : 'bound to another project',
+      detail: folder.uri.fsPath,
+      picked: binding?.projectId === project.id,
+      folder,
+    })),
+    {
+      canPickMany: true,
+      placeHolder: 'Select the workspace folders to install project-local MCP configs in',
+      title: 'Select Workspace Folders',
+    }
+  );
+  return picks && picks.length > 0 ? picks.map(pick => pick.folder) : undefined;
+}
+
+/**
+ * Install into one client: write its config directly (after a diff preview),
+ * falling back to the npx installer for stdio. Returns undefined if the user cancelled the preview.
+ */
+async function installForClient(
+  client: McpClientDefinition,
+  credentials: { apiKey: string; apiBaseUrl: string },
+  context: vscode.ExtensionContext,
+  workspaceFolder: string | undefined,
+  cancellationToken: vscode.CancellationToken,
+  output: InstallerTerminal,
+  transport: McpTransport = 'stdio'
+): Promise<InstallerResult | undefined> {
+  // Project-local configs belong in a workspace folder, never in the home directory
+  if (client.projectLocal && !workspaceFolder) {
+    const error = `${client.label} keeps its MCP config in the project folder. Open a folder to install it there.`;
+    return { success: false, exitCode: null, stdout: '', stderr: '', error };
+  }
+
+  const remoteShape = transport === 'stdio' ? undefined : client.remote?.[transport];
+  if (transport !== 'stdio' && !remoteShape) {
+    const error = `${client.label} doesn't support ${MCP_TRANSPORT_LABELS[transport]} MCP servers`;
+    return { success: false, exitCode: null, stdout: '', stderr: '', error };
+  }
+
+  // The npx installer only writes stdio servers
+  const npxFallback = transport === 'stdio' && !!client.npxInstaller;
+  const installer = vscode.workspace.getConfiguration('insforge').get<string>('mcpInstaller', 'native');
+  const configLocation = installer === 'native' || !npxFallback
+    ? getMcpConfigLocation(client.id, { workspaceFolder, globalStorageUri: context.globalStorageUri })
+    : undefined;
+
+  if (configLocation) {
+    const configPath = displayConfigPath(configLocation.uri);
+    try {
+      const applied = await previewAndApplyMcpConfig(
+        configLocation,
+        (current) => withInsForgeServer(current, configLocation.format, credentials, { transport, remoteShape }),
+        client.label
+      );
+      if (!applied) {
+        output.writeLine('Skipped (change not applied)');
+        return undefined;
+      }
+      output.writeLine(`Updated ${configPath}`);
+      return { success: true, exitCode: 0, stdout: `Updated ${configPath}`, stderr: '' };
+    } catch (error) {
+      // Parse errors can quote the text around the failure, API key included
+      const reason = redact(error instanceof Error ? error.message : String(error));
+      output.writeLine(`Could not update ${configPath}: ${reason}`);
+      if (!npxFallback) {
+        return { success: false, exitCode: null, stdout: '', stderr: '', error: `Could not update ${configPath}: ${reason}` };
+      }
+      console.warn(`[installMcp] Could not write ${configPath}, falling back to npx`, reason);
+      vscode.window.showWarningMessage(`Could not update ${configPath} (${reason}). Using npx @insforge/install instead.`);
+    }
+  }
+
+  if (!npxFallback) {
+    const error = `No ${client.label} config location`;
+    return { success: false, exitCode: null, stdout: '', stderr: '', error };
+  }
+
+  output.writeLine(`Running npx @insforge/install --client ${client.id}...`);
+  const result = await runInstaller(
+    client.id,
+    credentials.apiBaseUrl,
+    workspaceFolder,
+    cancellationToken,
+    (data) => output.write(data)
+  );
+  if (!result.success) {
+    return result;
+  }
+
+  // Replace the placeholder the installer wrote with the real key, and pin the MCP server version
+  const location = getMcpConfigLocation(client.id, { workspaceFolder, globalStorageUri: context.globalStorageUri });
+  try {
+    const text = location && await readConfigFile(location.uri);
+    if (!location || !text?.includes(API_KEY_PLACEHOLDER)) {
+      throw new Error('the installed config was not found');
+    }
+    const withKey = text.split(API_KEY_PLACEHOLDER).join(credentials.apiKey);
+    const version = getMcpServerVersion();
+    const pinned = findInsForgeServers(withKey, location.format)
+      .filter(server => server.apiKey === credentials.apiKey && server.version !== undefined)
+      .reduce((result, server) => withServerPackageVersion(result, location.format, server.name, version), withKey);
+    await writeConfigFile(location.uri, pinned);
+    output.writeLine(`Set the API key in ${displayConfigPath(location.uri)}`);
+    return result;
+  } catch (error) {
+    const reason = redact(error instanceof Error ? error.message : String(error));
+    return { ...result, success: false, error: `Installed, but could not set the API key: ${reason}` };
+  }
+}
+
+/**
+ * Install InsForge MCP for the project in the clients the user picks. Project-local clients
+ * are configured in `options.folder`, or in the workspace folders the user picks.
+ */
 export async function installMcp(
   project: Project,
   authProvider: AuthProvider,
-  extensionUri: vscode.Uri,
-  statusCallbacks?: McpStatusCallbacks
+  context: vscode.ExtensionContext,
+  statusCallbacks?: McpStatusCallbacks,
+  options: { folder?: vscode.WorkspaceFolder } = {}
 ): Promise<boolean> {
   try {
-    // Step 1: Let user pick which client to install for
-    const iconSuffix = isDarkTheme() ? '' : '-light';
+    // Step 1: Let user pick which clients to install for (clients detected in this editor first and preselected)
+    const detected = detectMcpClients();
 
-    const clientPick = await vscode.window.showQuickPick(
-      MCP_CLIENTS.map(client => ({
+    const clientItems = getMcpClients()
+      .sort((a, b) => Number(detected.has(b.id)) - Number(detected.has(a.id)))
+      .map(client => ({
         label: client.label,
-        description: client.description,
+        description: detected.has(client.id) ? `detected · ${client.description}` : client.description,
+        picked: detected.has(client.id),
         id: client.id,
+        client,
         projectLocal: client.projectLocal,
-        iconPath: vscode.Uri.joinPath(extensionUri, 'resources', 'agents', `${client.icon}${iconSuffix}.svg`),
-      })),
-      {
-        placeHolder: 'Select which AI client to install MCP for',
+        iconPath: getMcpClientIcon(client, context.extensionUri),
+      }));
+
+    // One-click install: skip the picker when exactly one client was detected
+    const oneClick = vscode.workspace.getConfiguration('insforge').get<boolean>('mcpOneClickInstall', false)
+      && detected.size === 1;
+    let clientPicks = oneClick
+      ? clientItems.filter(item => detected.has(item.id))
+      : await vscode.window.showQuickPick(clientItems, {
+        placeHolder: 'Select the AI clients to install MCP for',
         title: 'Install InsForge MCP',
-      }
-    );
+        canPickMany: true,
+      });
 
-    if (!clientPick) {
+    if (!clientPicks || clientPicks.length === 0) {
       return false; // User cancelled
     }
 
-    // Notify that installation is starting (reset states)
-    try {
-      await statusCallbacks?.onInstallationStarting?.();
-    } catch (err) {
-      console.warn('[installMcp] onInstallationStarting failed', err);
+    // Choose how the clients reach the server: local npx, or the project's hosted endpoint.
+    // One-click installs reuse the last choice if the client supports it, and stdio otherwise
+    // (the saved choice is kept for the next install).
+    let transport = context.globalState.get<McpTransport>(MCP_TRANSPORT_KEY, 'stdio');
+    if (!clientPicks.some(pick => pick.client.remote)) {
+      transport = 'stdio';
+    } else if (oneClick) {
+      const lastUsed = transport;
+      if (lastUsed !== 'stdio' && clientPicks.some(pick => !pick.client.remote?.[lastUsed])) {
+        transport = 'stdio';
+      }
+    } else {
+      const transportPick = await pickTransport(clientPicks.map(pick => pick.client), transport);
+      if (!transportPick) {
+        return false;
+      }
+      transport = transportPick;
+      await context.globalState.update(MCP_TRANSPORT_KEY, transport);
     }
 
-    // Step 2: Get workspace folder for project-local clients
-    let workspaceFolder: string | undefined;
-
-    if (clientPick.projectLocal) {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-
-      if (!workspaceFolders || workspaceFolders.length === 0) {
-        workspaceFolder = os.homedir();
-      } else if (workspaceFolders.length === 1) {
-        workspaceFolder = workspaceFolders[0].uri.fsPath;
-      } else {
-        // Multiple workspaces - let user pick
-        const folderPick = await vscode.window.showQuickPick(
-          workspaceFolders.map(folder => ({
-            label: folder.name,
-            description: folder.uri.fsPath,
-            folder: folder,
-          })),
-          {
-            placeHolder: 'Select workspace folder to install MCP config',
-            title: 'Select Workspace',
+    // Step 2: Get the workspace folders for project-local clients (their configs never go in the home directory)
+    let folders: vscode.WorkspaceFolder[] = [];
+    const localPicks = clientPicks.filter(pick => pick.projectLocal);
+
+    if (localPicks.length > 0) {
+      const pickedFolders = options.folder ? [options.folder] : await pickWorkspaceFolders(project);
+      if (!pickedFolders) {
+        return false;
+      }
+      folders = pickedFolders;
+    }
+
+    if (localPicks.length > 0 && folders.length === 0) {
+      const localLabels = localPicks.map(pick => pick.label).join(', ');
+      const otherPicks = clientPicks.filter(pick => !pick.projectLocal);
+
+      if (otherPicks.length === 0) {
+        vscode.window.showWarningMessage(
+          `Open a folder to install InsForge MCP for ${localLabels}. Its config lives in the project folder, not in your home directory.`,
+          'Open Folder'
+        ).then(selection => {
+          if (selection === 'Open Folder') {
+            vscode.commands.executeCommand('vscode.openFolder');
           }
-        );
+        });
+        return false;
+      }
 
-        if (!folderPick) {
-          return false;
-        }
-        workspaceFolder = folderPick.folder.uri.fsPath;
+      const proceed = await vscode.window.showWarningMessage(
+        `No folder is open, so ${localLabels} can't be configured.`,
+        { modal: true, detail: `Install for ${otherPicks.map(pick => pick.label).join(', ')} only?` },
+        'Continue'
+      );
+      if (proceed !== 'Continue') {
+        return false;
       }
+      clientPicks = otherPicks;
+    }
+
+    // Project-local clients are installed once per folder
+    const targets = clientPicks.flatMap(pick => pick.projectLocal
+      ? folders.map(folder => ({
+        ...pick,
+        label: folders.length > 1 ? `${pick.label} (${folder.name})` : pick.label,
+        folder: folder as vscode.WorkspaceFolder | undefined,
+      }))
+      : [{ ...pick, folder: undefined }]);
+
+    // Notify that installation is starting (reset states)
+    try {
+      await statusCallbacks?.onInstallationStarting?.();
+    } catch (err) {
+      console.warn('[installMcp] onInstallationStarting failed', err);
     }
 
     // Step 3: Get API key for this project
-    const apiKey = await authProvider.getProjectApiKey(project.id);
-    if (!apiKey) {
-      vscode.window.showErrorMessage('Could not retrieve API key for this project');
+    let apiKey: string;
+    try {
+      apiKey = await authProvider.getProjectApiKey(project.id);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Could not retrieve API key for this project: ${describeApiError(error)}`);
       return false;
     }
 
     // Step 4: Build the API base URL
-    const apiBaseUrl = `https://${project.appkey}.${project.region}.insforge.app`;
+    const apiBaseUrl = getProjectApiBaseUrl(project);
 
-    // Step 5: Mark as verifying (yellow dot)
-    statusCallbacks?.onVerifying?.(project.id);
+    // Step 5: Install for each client in one progress notification, streaming output to a terminal
+    const labels = clientPicks.map(client => client.label).join(', ');
+    const output = new InstallerTerminal(`InsForge MCP - ${labels}`);
+    output.show();
 
-    // Step 6: Run installer with progress
-    const installerResult = await vscode.window.withProgress(
+    const clientResults = await vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
-        title: `Installing InsForge MCP for ${clientPick.label}...`,
+        title: 'Installing InsForge MCP',
         cancellable: true,
       },
       async (progress, token) => {
-        progress.report({ message: 'Running installer...' });
-
-        // Run the installer and wait for it to complete
-        return await runInstaller(
-          clientPick.id,
-          apiKey,
-          apiBaseUrl,
-          workspaceFolder,
-          token
-        );
+        const results: ClientInstallResult[] = [];
+
+        for (const [index, client] of targets.entries()) {
+          if (token.isCancellationRequested) {
+            results.push({ clientId: client.id, clientLabel: client.label, result: SKIPPED_RESULT, skipped: true });
+            continue;
+          }
+
+          progress.report({
+            message: `${client.label} (${index + 1}/${targets.length})...`,
+            increment: index === 0 ? 0 : 100 / targets.length,
+          });
+          output.writeLine(`\x1b[1m${client.label}\x1b[0m`);
+
+          const result = await installForClient(
+            client.client,
+            { apiKey, apiBaseUrl },
+            context,
+            client.folder?.uri.fsPath,
+            token,
+            output,
+            transport
+          );
+          output.writeLine();
+          results.push({ clientId: client.id, clientLabel: client.label, result: result || SKIPPED_RESULT, skipped: !result });
+        }
+
+        return results;
       }
     );
 
-    // Step 7: Build terminal output message
-    // Always show terminal with installation output for better user experience
-    const terminalOutput = buildTerminalOutput(
-      installerResult,
-      clientPick.label,
-      clientPick.id
-    );
+    const succeeded = clientResults.filter(entry => entry.result.success);
+    const failed = clientResults.filter(entry => !entry.result.success && !entry.skipped);
 
-    const terminal = vscode.window.createTerminal({
-      name: `InsForge MCP - ${clientPick.label}`,
-      message: terminalOutput.replace(/\n/g, '\r\n'), // Terminal needs \r\n for proper line breaks
-    });
-    terminal.show();
+    // Every client was skipped: nothing changed
+    if (succeeded.length === 0 && failed.length === 0) {
+      output.dispose();
+      return false;
+    }
 
-    // Step 8: Check installer result
-    if (!installerResult.success) {
-      const errorMsg = installerResult.error || `Installer exited with code ${installerResult.exitCode}`;
-      statusCallbacks?.onFailed?.(project.id, errorMsg);
-      vscode.window.showErrorMessage(
-        `MCP installation failed: ${errorMsg}`,
-        'Retry',
-        'View Terminal'
-      ).then(selection => {
+    // Step 6: Append the summary below the streamed output
+    output.write(buildTerminalOutput(clientResults, { includeOutput: false }));
+    output.show();
+
+    // Step 7: Check installer results
+    if (failed.length > 0) {
+      const failedLabels = failed.map(entry => entry.clientLabel).join(', ');
+      const notification = succeeded.length > 0
+        ? vscode.window.showWarningMessage(
+          `MCP installed for ${succeeded.map(entry => entry.clientLabel).join(', ')}, but failed for ${failedLabels}`,
+          'Retry',
+          'View Terminal'
+        )
+        : vscode.window.showErrorMessage(`MCP installation failed for ${failedLabels}`, 'Retry', 'View Terminal');
+      notification.then(selection => {
         if (selection === 'Retry') {
-          vscode.commands.executeCommand('insforge.installMcp');
+          vscode.commands.executeCommand('insforge.installMcp', project, options.folder?.uri);
         } else if (selection === 'View Terminal') {
-          terminal.show();
+          output.show();
         }
       });
+    }
+
+    if (succeeded.length === 0) {
+      const errorMsg = failed[0].result.error || `Installer exited with code ${failed[0].result.exitCode}`;
+      statusCallbacks?.onFailed?.(project.id, errorMsg);
       return false;
     }
 
-    // Step 9: Verify MCP connection using the credentials directly
+    // Step 8: Mark as verifying (yellow dot) and verify the MCP connection once, using the credentials directly
+    statusCallbacks?.onVerifying?.(project.id);
+    const chatClientId = succeeded[0].clientId;
     verifyMcpInstallation(
       apiKey,
       apiBaseUrl,
@@ -267,10 +616,9 @@ export async function installMcp(
         onVerified: async (tools) => {
           statusCallbacks?.onVerified?.(project.id, tools);
 
-          // Try to open AI chat with welcome prompt
-          // For terminal-based agents (claude-code, codex), reuse the installation terminal
-          const chatOptions = usesTerminalChat(clientPick.id) ? { terminal } : undefined;
-          await tryOpenChatWithPrompt(clientPick.id, undefined, chatOptions);
+          // Try to open AI chat with welcome prompt (in the first client that was installed)
+          // Terminal-based agents (claude-code, codex) get a new shell terminal; the installer one can't run commands
+          await tryOpenChatWithPrompt(chatClientId);
 
           vscode.window.showInformationMessage(
             `MCP server verified! ${tools.length} tools available.`,
@@ -291,21 +639,311 @@ export async function installMcp(
             'Retry Verification'
           ).then(selection => {
             if (selection === 'Retry Verification') {
-              retryVerification(project.id, apiKey, apiBaseUrl, statusCallbacks);
+              retryVerification(project.id, apiKey, apiBaseUrl, statusCallbacks, transport);
             }
           });
         }
       },
+      transport,
     );
 
     return true;
   } catch (error) {
-    statusCallbacks?.onFailed?.(project.id, String(error));
-    vscode.window.showErrorMessage(`Failed to install MCP: ${error}`);
+    statusCallbacks?.onFailed?.(project.id, redact(String(error)));
+    vscode.window.showErrorMessage(redact(`Failed to install MCP: ${error}`));
     return false;
   }
 }
 
+/**
+ * Let the user pick InsForge server entries (optionally only the given project's)
+ * and remove them from the client configs. `onRemoving` runs before anything is written.
+ * Returns the entries that were removed.
+ */
+export async function uninstallMcp(
+  context: vscode.ExtensionContext,
+  project?: Project,
+  options: { onRemoving?: (servers: InstalledMcpServer[]) => Promise<void> } = {}
+): Promise<InstalledMcpServer[]> {
+  const apiBaseUrl = project ? getProjectApiBaseUrl(project) : undefined;
+  const installed = (await findInstalledMcpServers(context.globalStorageUri))
+    .filter(server => !apiBaseUrl || server.apiBaseUrl === apiBaseUrl);
+
+  if (installed.length === 0) {
+    vscode.window.showInformationMessage(
+      project
+        ? `InsForge MCP for ${project.name} isn't configured in any supported AI client.`
+        : 'No InsForge MCP servers found in supported AI clients.'
+    );
+    return [];
+  }
+
+  const picks = await vscode.window.showQuickPick(
+    installed.map(server => {
+      const client = getMcpClient(server.clientId);
+      const configPath = displayConfigPath(server.location.uri);
+      return {
+        label: server.clientLabel,
+        description: server.name === MCP_SERVER_NAME ? configPath : `${server.name} · ${configPath}`,
+        detail: server.apiBaseUrl,
+        picked: !!project,
+        iconPath: client ? getMcpClientIcon(client, context.extensionUri) : undefined,
+        server,
+      };
+    }),
+    {
+      canPickMany: true,
+      placeHolder: 'Select the MCP servers to remove',
+      title: 'Uninstall InsForge MCP',
+    }
+  );
+
+  if (!picks || picks.length === 0) {
+    return [];
+  }
+  await options.onRemoving?.(picks.map(pick => pick.server));
+
+  // Rewrite each config file once, even if it holds several entries
+  const removed: InstalledMcpServer[] = [];
+  const failures: string[] = [];
+  for (const servers of groupByConfigFile(picks.map(pick => pick.server))) {
+    const { location } = servers[0];
+    try {
+      const current = await readConfigFile(location.uri);
+      await writeConfigFile(location.uri, withoutServers(current, location.format, servers.map(server => server.name)));
+      removed.push(...servers);
+    } catch (error) {
+      failures.push(`${displayConfigPath(location.uri)}: ${redact(error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    vscode.window.showErrorMessage(`Could not remove InsForge MCP from ${failures.join('; ')}`);
+  }
+  if (removed.length > 0) {
+    const clients = [...new Set(removed.map(server => server.clientLabel))].join(', ');
+    vscode.window.showInformationMessage(`Removed InsForge MCP from ${clients}. Restart the AI client to apply.`);
+  }
+
+  return removed;
+}
+
+/**
+ * Regenerate the project's API key, write the new key into every client config that
+ * has the project's InsForge server, and verify the MCP server with it.
+ * Returns the new key, or undefined if the user cancelled or the rotation failed.
+ */
+export async function rotateProjectApiKey(
+  project: Project,
+  authProvider: AuthProvider,
+  context: vscode.ExtensionContext,
+  statusCallbacks?: McpStatusCallbacks
+): Promise<string | undefined> {
+  const confirm = await vscode.window.showWarningMessage(
+    `Rotate the API key for ${project.name}?`,
+    {
+      modal: true,
+      detail: 'The current key stops working immediately. InsForge MCP configs found on this machine are updated with the new key; anything else using the old key must be updated by hand.',
+    },
+    'Rotate'
+  );
+  if (confirm !== 'Rotate') {
+    return undefined;
+  }
+
+  const apiBaseUrl = getProjectApiBaseUrl(project);
+  let apiKey: string;
+  try {
+    apiKey = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Rotating API key for ${project.name}...` },
+      () => authProvider.rotateProjectApiKey(project.id)
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`Could not rotate the API key: ${describeApiError(error)}`);
+    return undefined;
+  }
+
+  // The listener authenticates with the old key; verification restarts it
+  stopMcpSocketListener(project.id);
+
+  // Set the new key in the project's entries only, so the rest of each config is untouched
+  const installed = (await findInstalledMcpServers(context.globalStorageUri))
+    .filter(server => server.apiBaseUrl === apiBaseUrl && server.apiKey);
+  const updated: InstalledMcpServer[] = [];
+  const failures: string[] = [];
+  for (const servers of groupByConfigFile(installed)) {
+    const { location } = servers[0];
+    try {
+      const current = await readConfigFile(location.uri);
+      const text = servers.reduce(
+        (result, server) => withServerApiKey(result, location.format, server.name, apiKey),
+        current || ''
+      );
+      await writeConfigFile(location.uri, text);
+      updated.push(...servers);
+    } catch (error) {
+      failures.push(`${displayConfigPath(location.uri)}: ${redact(error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    vscode.window.showErrorMessage(`Could not update the API key in ${failures.join('; ')}`);
+  }
+  if (updated.length === 0) {
+    // Nothing runs with the new key, so there is nothing to verify
+    if (failures.length === 0) {
+      vscode.window.showInformationMessage(`Rotated the API key for ${project.name}. InsForge MCP isn't configured in any supported AI client.`);
+    }
+    return apiKey;
+  }
+
+  const clients = [...new Set(updated.map(server => server.clientLabel))].join(', ');
+  vscode.window.showInformationMessage(`Rotated the API key for ${project.name} and updated ${clients}. Restart the AI client to apply.`);
+  await retryVerification(project.id, apiKey, apiBaseUrl, statusCallbacks, updated[0].transport);
+  return apiKey;
+}
+
+/**
+ * Put the project's InsForge server back into the configs that drifted from what was
+ * verified, with the current API key, and verify it again. Files that no longer parse
+ * are opened for fixing by hand instead. Returns false if nothing was repaired.
+ */
+export async function repairMcpInstallation(
+  project: Project,
+  snapshots: McpConfigSnapshot[],
+  authProvider: AuthProvider,
+  statusCallbacks?: McpStatusCallbacks
+): Promise<boolean> {
+  let apiKey: string;
+  try {
+    apiKey = await authProvider.getProjectApiKey(project.id);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Could not retrieve API key for this project: ${describeApiError(error)}`);
+    return false;
+  }
+  const apiBaseUrl = getProjectApiBaseUrl(project);
+
+  const repaired: McpConfigSnapshot[] = [];
+  for (const snapshot of snapshots) {
+    const uri = vscode.Uri.parse(snapshot.uri);
+    const configPath = displayConfigPath(uri);
+    const remoteShape = snapshot.transport === 'stdio' ? undefined : getMcpClient(snapshot.clientId)?.remote?.[snapshot.transport];
+    try {
+      const current = await readConfigFile(uri);
+      const updated = withInsForgeServer(current, snapshot.format, { apiKey, apiBaseUrl }, { transport: snapshot.transport, remoteShape });
+      await writeConfigFile(uri, updated);
+      repaired.push(snapshot);
+    } catch (error) {
+      console.warn(`[installMcp] Could not repair ${configPath}:`, redact(String(error)));
+      vscode.window.showErrorMessage(
+        `Could not repair ${configPath}: ${redact(error instanceof Error ? error.message : String(error))}. Fix the file and try again.`,
+        'Open File'
+      ).then(selection => {
+        if (selection === 'Open File') {
+          vscode.window.showTextDocument(uri);
+        }
+      });
+    }
+  }
+
+  if (repaired.length === 0) {
+    return false;
+  }
+
+  const clients = [...new Set(repaired.map(snapshot => snapshot.clientLabel))].join(', ');
+  vscode.window.showInformationMessage(`Repaired InsForge MCP for ${project.name} in ${clients}. Restart the AI client to apply.`);
+
+  await retryVerification(project.id, apiKey, apiBaseUrl, statusCallbacks, repaired[0].transport);
+  return true;
+}
+
+/**
+ * Compare the MCP server version of every installed InsForge entry with the one
+ * insforge.mcpServerVersion resolves to on npm, and offer to update the entries that differ.
+ * With `silent`, only an available update is reported. Returns the entries that were updated.
+ */
+export async function checkMcpUpdates(
+  context: vscode.ExtensionContext,
+  options: { silent?: boolean } = {}
+): Promise<InstalledMcpServer[]> {
+  const installed = await findInstalledMcpServers(context.globalStorageUri);
+  if (installed.length === 0) {
+    if (!options.silent) {
+      vscode.window.showInformationMessage('No InsForge MCP servers found in supported AI clients.');
+    }
+    return [];
+  }
+
+  let releases: McpReleases;
+  try {
+    releases = await fetchMcpReleases();
+  } catch (error) {
+    console.warn('[installMcp] Could not fetch MCP server versions:', error);
+    if (!options.silent) {
+      vscode.window.showErrorMessage(`Could not check for MCP server updates: ${error instanceof Error ? error.message : error}`);
+    }
+    return [];
+  }
+
+  const version = getMcpServerVersion();
+  const target = resolveMcpVersion(version, releases);
+  if (!target) {
+    if (!options.silent) {
+      vscode.window.showWarningMessage(`${MCP_PACKAGE} has no "${version}" release. Check the insforge.mcpServerVersion setting.`);
+    }
+    return [];
+  }
+
+  // Remote entries and custom launch commands have no package version to update
+  const outdated = installed
+    .filter(server => server.version !== undefined)
+    .filter(server => resolveMcpVersion(server.version || '', releases) !== target);
+  if (outdated.length === 0) {
+    if (!options.silent) {
+      vscode.window.showInformationMessage(`InsForge MCP is up to date (${MCP_PACKAGE} ${target}).`);
+    }
+    return [];
+  }
+
+  const clients = outdated
+    .map(server => `${server.clientLabel} (${resolveMcpVersion(server.version || '', releases) || server.version || 'unpinned'})`)
+    .join(', ');
+  const selection = await vscode.window.showInformationMessage(
+    `${MCP_PACKAGE} ${target} is available for ${clients}.`,
+    'Update All'
+  );
+  if (selection !== 'Update All') {
+    return [];
+  }
+
+  const updated: InstalledMcpServer[] = [];
+  const failures: string[] = [];
+  for (const servers of groupByConfigFile(outdated)) {
+    const { location } = servers[0];
+    try {
+      const current = await readConfigFile(location.uri);
+      const text = servers.reduce(
+        (result, server) => withServerPackageVersion(result, location.format, server.name, version),
+        current || ''
+      );
+      await writeConfigFile(location.uri, text);
+      updated.push(...servers);
+    } catch (error) {
+      failures.push(`${displayConfigPath(location.uri)}: ${redact(error instanceof Error ? error.message : String(error))}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    vscode.window.showErrorMessage(`Could not update InsForge MCP in ${failures.join('; ')}`);
+  }
+  if (updated.length > 0) {
+    const updatedClients = [...new Set(updated.map(server => server.clientLabel))].join(', ');
+    vscode.window.showInformationMessage(`Updated InsForge MCP to ${getMcpPackageSpec(version)} in ${updatedClients}. Restart the AI client to apply.`);
+  }
+
+  return updated;
+}
+
 /**
  * Retry MCP verification for a project
  */
@@ -313,7 +951,8 @@ export async function retryVerification(
   projectId: string,
   apiKey: string,
   apiBaseUrl: string,
-  statusCallbacks?: McpStatusCallbacks
+  statusCallbacks?: McpStatusCallbacks,
+  transport: McpTransport = 'stdio'
 ): Promise<void> {
   statusCallbacks?.onVerifying?.(projectId);
 
@@ -331,5 +970,6 @@ export async function retryVerification(
         vscode.window.showErrorMessage(`MCP verification failed: ${error}`);
       }
     },
+    transport,
   );
 }
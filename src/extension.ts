@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
 import { AuthProvider } from './auth/authProvider';
+import { AUTH_PROVIDER_ID, AUTH_PROVIDER_LABEL, InsForgeAuthenticationProvider } from './auth/insforgeAuthenticationProvider';
 import { ProjectsViewProvider } from './views/projectsViewProvider';
 import { registerCommands } from './commands';
+import { registerMcpConfigPreviewProvider } from './utils/mcpConfig';
+
+// Automatic MCP server update checks run at most this often
+const MCP_UPDATE_CHECK_KEY = 'insforge.lastMcpUpdateCheck';
+const MCP_UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
 let authProvider: AuthProvider;
 let statusBarItem: vscode.StatusBarItem;
@@ -12,6 +18,28 @@ export async function activate(context: vscode.ExtensionContext) {
 
   // Initialize auth provider
   authProvider = new AuthProvider(context);
+  await authProvider.initialize();
+  context.subscriptions.push(authProvider);
+
+  // Expose the session through the VS Code authentication API (Accounts menu, other extensions)
+  const authenticationProvider = new InsForgeAuthenticationProvider(authProvider);
+  context.subscriptions.push(
+    authenticationProvider,
+    vscode.authentication.registerAuthenticationProvider(
+      AUTH_PROVIDER_ID,
+      AUTH_PROVIDER_LABEL,
+      authenticationProvider,
+      { supportsMultipleAccounts: true }
+    )
+  );
+
+  // Receive OAuth redirects for the uriHandler login method
+  context.subscriptions.push(
+    vscode.window.registerUriHandler({ handleUri: (uri) => authProvider.handleUri(uri) })
+  );
+
+  // Preview documents for MCP config changes
+  context.subscriptions.push(registerMcpConfigPreviewProvider());
 
   // Initialize and register the single projects webview provider
   projectsViewProvider = new ProjectsViewProvider(context.extensionUri, authProvider);
@@ -25,28 +53,69 @@ export async function activate(context: vscode.ExtensionContext) {
   statusBarItem.command = 'insforge.selectProject';
   context.subscriptions.push(statusBarItem);
 
-  // Update status bar when auth changes
-  authProvider.onDidChangeAuth(() => {
+  // Update status bar when auth changes, and restore the workspace's project after login
+  authProvider.onDidChangeAuth((loggedIn) => {
+    updateStatusBar();
+    if (loggedIn) {
+      authProvider.restoreSelectedProject();
+    }
+  });
+
+  // Update status bar when the selected project changes
+  authProvider.onDidChangeProject(() => {
     updateStatusBar();
   });
 
+  // Drop the session and reload projects when the InsForge environment changes
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (e.affectsConfiguration('insforge.environment') || e.affectsConfiguration('insforge.environments')) {
+        await authProvider.handleEnvironmentChanged();
+        projectsViewProvider.refresh();
+        updateStatusBar();
+      }
+      if (e.affectsConfiguration('insforge.mcpClients')) {
+        projectsViewProvider.scanMcpInstallations();
+      }
+      if (e.affectsConfiguration('insforge.mcpServerVersion')) {
+        vscode.commands.executeCommand('insforge.checkMcpUpdates', { silent: true });
+      }
+    })
+  );
+
   // Register all commands
   registerCommands(context, authProvider, projectsViewProvider, updateStatusBar);
 
   // Initial status bar update
   updateStatusBar();
+
+  // Restore the project selected in this workspace (or named in .insforge/project.json)
+  authProvider.restoreSelectedProject();
+
+  // Offer MCP server updates for installed clients
+  const lastUpdateCheck = context.globalState.get<number>(MCP_UPDATE_CHECK_KEY, 0);
+  if (vscode.workspace.getConfiguration('insforge').get<boolean>('checkMcpUpdates', true)
+    && Date.now() - lastUpdateCheck > MCP_UPDATE_CHECK_INTERVAL_MS) {
+    context.globalState.update(MCP_UPDATE_CHECK_KEY, Date.now());
+    vscode.commands.executeCommand('insforge.checkMcpUpdates', { silent: true });
+  }
 }
 
 function updateStatusBar() {
   const project = authProvider.getCurrentProject();
 
+  const account = authProvider.getActiveAccount();
+  const accountSuffix = account
+    ? `\nAccount: ${account.user.email}${account.tokenSession ? ' (access token)' : ''}`
+    : '';
+
   if (project) {
     statusBarItem.text = `$(database) ${project.name}`;
-    statusBarItem.tooltip = `InsForge: ${project.name} (${project.region}) - Connected`;
+    statusBarItem.tooltip = `InsForge: ${project.name} (${project.region}) - Connected${accountSuffix}`;
     statusBarItem.show();
   } else {
     statusBarItem.text = '$(database) InsForge';
-    statusBarItem.tooltip = 'InsForge: No project selected';
+    statusBarItem.tooltip = `InsForge: No project selected${accountSuffix}`;
     statusBarItem.show();
   }
 }
@@ -0,0 +1,229 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  findInsForgeServers,
+  McpConfigFormat,
+  McpServerOptions,
+  withInsForgeServer,
+  withoutServers,
+  withServerApiKey,
+  withServerPackageVersion,
+} from '../utils/mcpConfig';
+
+const credentials = { apiKey: 'ik_test_key', apiBaseUrl: 'https://app.us-east.insforge.app' };
+
+// Shared settings files the registry writes into: Zed and Gemini CLI settings.json, VS Code's user mcp.json
+const settingsFiles: { name: string; format: McpConfigFormat; options?: McpServerOptions; text: string; kept: string[] }[] = [
+  {
+    name: 'Zed settings.json',
+    format: 'zed',
+    text: [
+      '// Zed settings',
+      '{',
+      '  "theme": "One Dark", // picked by hand',
+      '  "context_servers": {',
+      '    /* local tools */',
+      '    "other": { "source": "custom", "command": "other-mcp" }',
+      '  }',
+      '}',
+      '',
+    ].join('\n'),
+    kept: ['// Zed settings', '"theme": "One Dark", // picked by hand', '/* local tools */', '"other"'],
+  },
+  {
+    name: 'Gemini CLI settings.json',
+    format: 'mcpServers',
+    options: { transport: 'http', remoteShape: { urlKey: 'httpUrl' } },
+    text: [
+      '{',
+      '  // Gemini CLI settings',
+      '  "theme": "GitHub",',
+      '  "selectedAuthType": "oauth-personal"',
+      '}',
+      '',
+    ].join('\n'),
+    kept: ['// Gemini CLI settings', '"theme": "GitHub",', '"selectedAuthType": "oauth-personal"'],
+  },
+  {
+    name: 'VS Code user mcp.json',
+    format: 'vscode',
+    text: [
+      '{',
+      '\t"servers": {',
+      '\t\t// added from the gallery',
+      '\t\t"github": { "type": "http", "url": "https://api.githubcopilot.com/mcp/" }',
+      '\t},',
+      '\t"inputs": []',
+      '}',
+      '',
+    ].join('\n'),
+    kept: ['\t\t// added from the gallery', '"github"', '\t"inputs": []'],
+  },
+];
+
+for (const file of settingsFiles) {
+  test(`installing into ${file.name} keeps the user's comments and settings`, () => {
+    const installed = withInsForgeServer(file.text, file.format, credentials, file.options);
+
+    file.kept.forEach(line => assert.ok(installed.includes(line), `lost: ${line}`));
+    assert.equal(findInsForgeServers(installed, file.format).length, 1);
+  });
+
+  test(`uninstalling from ${file.name} keeps the user's comments and settings`, () => {
+    const installed = withInsForgeServer(file.text, file.format, credentials, file.options);
+    const uninstalled = withoutServers(installed, file.format, ['insforge']);
+
+    file.kept.forEach(line => assert.ok(uninstalled.includes(line), `lost: ${line}`));
+    assert.equal(findInsForgeServers(uninstalled, file.format).length, 0);
+    assert.ok(!uninstalled.includes(credentials.apiKey));
+  });
+}
+
+test('a new API key replaces the key of the InsForge entry only', () => {
+  const text = [
+    '{',
+    '  // old key: ik_old_key_123',
+    '  "mcpServers": {',
+    '    "insforge": { "command": "npx", "args": ["-y", "@insforge/mcp@latest"], "env": { "API_KEY": "ik_old_key_123", "API_BASE_URL": "https://a.insforge.app" } },',
+    '    "copy": { "command": "other-mcp", "env": { "TOKEN": "ik_old_key_123" } }',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  const rotated = withServerApiKey(text, 'mcpServers', 'insforge', 'ik_new_key_456');
+
+  assert.equal(findInsForgeServers(rotated, 'mcpServers')[0].apiKey, 'ik_new_key_456');
+  assert.ok(rotated.includes('// old key: ik_old_key_123'));
+  assert.ok(rotated.includes('"TOKEN": "ik_old_key_123"'));
+});
+
+test('a new API key replaces the header of a remote entry', () => {
+  const text = withInsForgeServer(undefined, 'vscode', credentials, { transport: 'http', remoteShape: { type: 'http' } });
+
+  const rotated = withServerApiKey(text, 'vscode', 'insforge', 'ik_new_key_456');
+
+  assert.equal(findInsForgeServers(rotated, 'vscode')[0].apiKey, 'ik_new_key_456');
+  assert.ok(!rotated.includes(credentials.apiKey));
+});
+
+test('a new API key replaces the key of the Codex entry only', () => {
+  const text = [
+    '# keep: ik_old_key_123',
+    '[mcp_servers.other]',
+    'command = "other-mcp"',
+    'env = { TOKEN = "ik_old_key_123" }',
+    '',
+    '[mcp_servers.insforge]',
+    'command = "npx"',
+    'args = ["-y", "@insforge/mcp@latest"]',
+    '',
+    '[mcp_servers.insforge.env]',
+    'API_KEY = "ik_old_key_123" # rotated by InsForge',
+    'API_BASE_URL = "https://a.insforge.app"',
+    '',
+  ].join('\n');
+
+  const rotated = withServerApiKey(text, 'codexToml', 'insforge', 'ik_new_key_456');
+
+  assert.equal(rotated, text.replace('API_KEY = "ik_old_key_123"', 'API_KEY = "ik_new_key_456"'));
+});
+
+test('a new API key fails for an entry without one', () => {
+  assert.throws(() => withServerApiKey('{ "mcpServers": {} }', 'mcpServers', 'insforge', 'ik_new_key_456'));
+  assert.throws(() => withServerApiKey('[mcp_servers.insforge]\ncommand = "npx"\n', 'codexToml', 'insforge', 'ik_new_key_456'));
+});
+
+test('parse errors say where the file is broken without quoting it', () => {
+  const text = '{\n  "mcpServers": { "insforge": { "env": { "API_KEY": "ik_secret_value" oops } } }\n}\n';
+
+  assert.throws(
+    () => findInsForgeServers(text, 'mcpServers'),
+    (error: Error) => /^\w+ at line 2, column \d+ \(offset \d+\)$/.test(error.message) && !error.message.includes('ik_secret_value')
+  );
+});
+
+test('comments and trailing commas are allowed', () => {
+  const text = '{\n  // servers\n  "servers": { "insforge": { "url": "https://a.insforge.app/mcp", "headers": { "x-api-key": "ik_1" }, }, },\n}\n';
+
+  assert.equal(findInsForgeServers(text, 'vscode')[0].apiKey, 'ik_1');
+});
+
+test('a new package version is written into the given entry only', () => {
+  const text = [
+    '{',
+    '  "mcpServers": {',
+    '    "insforge": { "command": "npx", "args": ["-y", "@insforge/mcp@1.0.0"] },',
+    '    "insforge-staging": { "command": "npx", "args": ["-y", "@insforge/mcp@1.0.0"] }',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  const updated = withServerPackageVersion(text, 'mcpServers', 'insforge', '1.2.3');
+
+  assert.deepEqual(findInsForgeServers(updated, 'mcpServers').map(server => server.version), ['1.2.3', '1.0.0']);
+});
+
+test('a new package version is written into the given Codex entry only', () => {
+  const text = [
+    '[mcp_servers.insforge]',
+    'command = "npx"',
+    'args = ["-y", "@insforge/mcp@1.0.0"]',
+    '',
+    '[mcp_servers.insforge-staging]',
+    'command = "npx"',
+    'args = ["-y", "@insforge/mcp@1.0.0"]',
+    '',
+  ].join('\n');
+
+  const updated = withServerPackageVersion(text, 'codexToml', 'insforge-staging', 'latest');
+
+  assert.equal(updated, text.replace(/@1\.0\.0"\]\n$/, '@latest"]\n'));
+});
+
+const codexConfig = [
+  '# Codex settings',
+  'model = "o4-mini"',
+  '',
+  '[mcp_servers.other]',
+  'command = "other-mcp"',
+  '',
+].join('\n');
+
+test('installing into a Codex config adds an insforge table and keeps the rest', () => {
+  const installed = withInsForgeServer(codexConfig, 'codexToml', credentials);
+
+  assert.ok(installed.startsWith(codexConfig.trimEnd()));
+  assert.match(installed, /\n\[mcp_servers\.insforge\]\ncommand = "(npx|cmd)"\nargs = \[.*"@insforge\/mcp@latest"\]\n\n\[mcp_servers\.insforge\.env\]\nAPI_KEY = "ik_test_key"\nAPI_BASE_URL = "https:\/\/app\.us-east\.insforge\.app"\n$/);
+  assert.deepEqual(findInsForgeServers(installed, 'codexToml').map(server => [server.apiKey, server.apiBaseUrl, server.transport]), [
+    ['ik_test_key', 'https://app.us-east.insforge.app', 'stdio'],
+  ]);
+});
+
+test('installing into a Codex config again replaces the insforge tables', () => {
+  const stdio = withInsForgeServer(codexConfig, 'codexToml', credentials);
+  const remote = withInsForgeServer(stdio, 'codexToml', credentials, { transport: 'http' });
+
+  assert.equal((remote.match(/\[mcp_servers\.insforge\]/g) || []).length, 1);
+  assert.ok(!remote.includes('[mcp_servers.insforge.env]'));
+  assert.ok(remote.includes('[mcp_servers.insforge.http_headers]\n"x-api-key" = "ik_test_key"'));
+  assert.deepEqual(findInsForgeServers(remote, 'codexToml').map(server => [server.apiKey, server.apiBaseUrl, server.transport]), [
+    ['ik_test_key', 'https://app.us-east.insforge.app', 'http'],
+  ]);
+});
+
+test('uninstalling from a Codex config removes the insforge tables only', () => {
+  const installed = withInsForgeServer(codexConfig, 'codexToml', credentials);
+
+  assert.equal(withoutServers(installed, 'codexToml', ['insforge']), codexConfig);
+});
+
+test('Codex entries with inline env tables are read', () => {
+  const text = '[mcp_servers.insforge]\ncommand = "npx"\nargs = ["-y", "@insforge/mcp@1.2.3"]\nenv = { API_KEY = "ik_inline", API_BASE_URL = "https://b.insforge.app" }\n';
+
+  assert.deepEqual(findInsForgeServers(text, 'codexToml').map(server => [server.apiKey, server.apiBaseUrl, server.version]), [
+    ['ik_inline', 'https://b.insforge.app', '1.2.3'],
+  ]);
+  assert.ok(withServerApiKey(text, 'codexToml', 'insforge', 'ik_rotated').includes('env = { API_KEY = "ik_rotated", API_BASE_URL'));
+});
@@ -0,0 +1,89 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findMcpConfigDrift, McpConfigSnapshot, snapshotMcpConfig } from '../utils/mcpConfigWatcher';
+
+const verified = {
+  mcpServers: {
+    insforge: {
+      command: 'npx',
+      args: ['-y', '@insforge/mcp@latest'],
+      env: { API_KEY: 'ik_verified_key_1', API_BASE_URL: 'https://app.us-east.insforge.app' },
+    },
+  },
+};
+
+/**
+ * Write the verified config to a temp file, snapshot it, then let the test change the file
+ */
+async function withSnapshot(run: (configPath: string, snapshot: McpConfigSnapshot) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'insforge-drift-'));
+  const configPath = path.join(dir, 'mcp.json');
+  fs.writeFileSync(configPath, JSON.stringify(verified, null, 2));
+  const snapshot = snapshotMcpConfig({
+    location: { uri: vscode.Uri.file(configPath), format: 'mcpServers' },
+    clientId: 'cursor',
+    clientLabel: 'Cursor',
+    name: 'insforge',
+    apiBaseUrl: 'https://app.us-east.insforge.app',
+    apiKey: 'ik_verified_key_1',
+    transport: 'stdio',
+  });
+  try {
+    await run(configPath, snapshot);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function withEnv(env: Record<string, string>): object {
+  return { mcpServers: { insforge: { ...verified.mcpServers.insforge, env } } };
+}
+
+test('snapshots keep a hash of the API key, not the key', async () => {
+  await withSnapshot(async (_configPath, snapshot) => {
+    assert.ok(!JSON.stringify(snapshot).includes('ik_verified_key_1'));
+  });
+});
+
+test('an unchanged entry has no drift', async () => {
+  await withSnapshot(async (configPath, snapshot) => {
+    // Reformatting and other servers don't matter
+    fs.writeFileSync(configPath, JSON.stringify({ mcpServers: { ...verified.mcpServers, other: { command: 'x' } } }));
+
+    assert.equal(await findMcpConfigDrift(snapshot), undefined);
+  });
+});
+
+test('a removed entry or deleted file is drift', async () => {
+  await withSnapshot(async (configPath, snapshot) => {
+    fs.writeFileSync(configPath, JSON.stringify({ mcpServers: {} }));
+    assert.match(await findMcpConfigDrift(snapshot) || '', /entry was removed/);
+
+    fs.rmSync(configPath);
+    assert.match(await findMcpConfigDrift(snapshot) || '', /was deleted/);
+  });
+});
+
+test('an entry pointing at another project or key is drift', async () => {
+  await withSnapshot(async (configPath, snapshot) => {
+    fs.writeFileSync(configPath, JSON.stringify(withEnv({ API_KEY: 'ik_verified_key_1', API_BASE_URL: 'https://other.insforge.app' })));
+    assert.match(await findMcpConfigDrift(snapshot) || '', /points to another project/);
+
+    fs.writeFileSync(configPath, JSON.stringify(withEnv({ API_KEY: 'ik_other_key_2', API_BASE_URL: 'https://app.us-east.insforge.app' })));
+    assert.match(await findMcpConfigDrift(snapshot) || '', /different API key/);
+  });
+});
+
+test('an unparseable file is drift, described without quoting it', async () => {
+  await withSnapshot(async (configPath, snapshot) => {
+    fs.writeFileSync(configPath, '{ "mcpServers": { "insforge": { "env": { "API_KEY": "ik_verified_key_1" ');
+
+    const reason = await findMcpConfigDrift(snapshot);
+    assert.match(reason || '', /can't be parsed/);
+    assert.ok(!reason?.includes('ik_verified_key_1'));
+  });
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findMcpPackageVersion, McpReleases, resolveMcpVersion, withMcpPackageVersion } from '../utils/mcpVersion';
+
+const releases: McpReleases = {
+  distTags: { latest: '1.2.3', beta: '1.3.0-beta.1' },
+  versions: ['1.2.2', '1.2.3', '1.3.0-beta.1'],
+};
+
+test('tags resolve to the version they point at', () => {
+  assert.equal(resolveMcpVersion('latest', releases), '1.2.3');
+  assert.equal(resolveMcpVersion('beta', releases), '1.3.0-beta.1');
+  assert.equal(resolveMcpVersion('next', releases), undefined);
+});
+
+test('exact versions resolve only if they were published', () => {
+  assert.equal(resolveMcpVersion('1.2.2', releases), '1.2.2');
+  assert.equal(resolveMcpVersion('1.2.99', releases), undefined);
+});
+
+test('unpinned launches count as following latest', () => {
+  assert.equal(resolveMcpVersion('', releases), '1.2.3');
+});
+
+test('the package version is read from a launch command', () => {
+  assert.equal(findMcpPackageVersion('npx -y @insforge/mcp@1.2.2'), '1.2.2');
+  assert.equal(findMcpPackageVersion('npx -y @insforge/mcp'), '');
+  assert.equal(findMcpPackageVersion('npx -y @insforge/mcp-proxy@1.0.0'), undefined);
+});
+
+test('the package is pointed at another version', () => {
+  assert.equal(withMcpPackageVersion('@insforge/mcp@1.2.2', 'latest'), '@insforge/mcp@latest');
+  assert.equal(withMcpPackageVersion('@insforge/mcp', '1.2.3'), '@insforge/mcp@1.2.3');
+  assert.equal(withMcpPackageVersion('@insforge/mcp-proxy@1.0.0', '1.2.3'), '@insforge/mcp-proxy@1.0.0');
+});
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { PROJECT_BINDING_FILE, readProjectBinding, writeProjectBinding } from '../utils/projectBinding';
+
+async function withFolder(run: (folder: string) => Promise<void>): Promise<void> {
+  const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'insforge-binding-'));
+  try {
+    await run(folder);
+  } finally {
+    fs.rmSync(folder, { recursive: true, force: true });
+  }
+}
+
+test('a written binding is read back', async () => {
+  await withFolder(async (folder) => {
+    await writeProjectBinding(vscode.Uri.file(folder), { organizationId: 'org-1', projectId: 'p-1' });
+
+    assert.deepEqual(await readProjectBinding(vscode.Uri.file(folder)), { organizationId: 'org-1', projectId: 'p-1' });
+  });
+});
+
+test('a folder without a binding file has no binding', async () => {
+  await withFolder(async (folder) => {
+    assert.equal(await readProjectBinding(vscode.Uri.file(folder)), undefined);
+  });
+});
+
+test('binding files without both IDs, or with invalid JSON, are ignored', async () => {
+  await withFolder(async (folder) => {
+    const file = path.join(folder, PROJECT_BINDING_FILE);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    fs.writeFileSync(file, JSON.stringify({ projectId: 'p-1' }));
+    assert.equal(await readProjectBinding(vscode.Uri.file(folder)), undefined);
+
+    fs.writeFileSync(file, '{ "organizationId": ');
+    assert.equal(await readProjectBinding(vscode.Uri.file(folder)), undefined);
+  });
+});
+
+test('extra fields are not carried over', async () => {
+  await withFolder(async (folder) => {
+    const file = path.join(folder, PROJECT_BINDING_FILE);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ organizationId: 'org-1', projectId: 'p-1', apiKey: 'ik_x' }));
+
+    assert.deepEqual(await readProjectBinding(vscode.Uri.file(folder)), { organizationId: 'org-1', projectId: 'p-1' });
+  });
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProjectsCache } from '../utils/projectsCache';
+
+test('ProjectsCache does not write project API keys to disk', async () => {
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'insforge-cache-'));
+  try {
+    const cache = new ProjectsCache(vscode.Uri.file(storageDir));
+    await cache.write('cloud:user-1', {
+      fetchedAt: 1,
+      orgs: [{
+        org: { id: 'org-1', name: 'Acme' },
+        projects: [{ id: 'p-1', name: 'App', region: 'us-east', appkey: 'abc123', access_api_key: 'ik_secret_key_value' }],
+      }],
+    });
+
+    const [file] = fs.readdirSync(path.join(storageDir, 'projects-cache'));
+    const content = fs.readFileSync(path.join(storageDir, 'projects-cache', file), 'utf8');
+    assert.ok(!content.includes('ik_secret_key_value'));
+    assert.ok(!content.includes('access_api_key'));
+
+    const cached = await cache.read('cloud:user-1');
+    assert.equal(cached?.orgs[0].projects[0].name, 'App');
+    assert.equal(cached?.orgs[0].projects[0].access_api_key, undefined);
+  } finally {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  }
+});
+
+test('ProjectsCache keeps the error of an org whose projects failed to load', async () => {
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'insforge-cache-'));
+  try {
+    const cache = new ProjectsCache(vscode.Uri.file(storageDir));
+    await cache.write('cloud:user-1', {
+      fetchedAt: 1,
+      orgs: [
+        { org: { id: 'org-1', name: 'Acme' }, projects: [{ id: 'p-1', name: 'App', region: 'us-east', appkey: 'abc123' }] },
+        { org: { id: 'org-2', name: 'Beta' }, projects: [], error: 'Server error (502)' },
+      ],
+    });
+
+    const cached = await cache.read('cloud:user-1');
+    assert.deepEqual(cached?.orgs.map(entry => [entry.org.id, entry.projects.length, entry.error]), [
+      ['org-1', 1, undefined],
+      ['org-2', 0, 'Server error (502)'],
+    ]);
+  } finally {
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  }
+});
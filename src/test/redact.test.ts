@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { maskSecret, redact, registerSecret } from '../utils/redact';
+
+test('registered secrets are masked wherever they appear', () => {
+  registerSecret('ik_registered_secret_1');
+
+  assert.equal(
+    redact('Failed with key ik_registered_secret_1 (ik_registered_secret_1)'),
+    'Failed with key ik_r******** (ik_r********)'
+  );
+});
+
+test('values assigned to API_KEY are masked even if unknown', () => {
+  assert.equal(redact('API_KEY=ik_unknown_1'), 'API_KEY=ik_u********');
+  assert.equal(redact('"API_KEY": "ik_unknown_2"'), '"API_KEY": "ik_u********"');
+  assert.equal(redact("API_KEY = 'ik_unknown_3'"), "API_KEY = 'ik_u********'");
+  assert.equal(redact('--header x-api-key: ik_unknown_4'), '--header x-api-key: ik_u********');
+  assert.equal(redact('{ "x-api-key": "ik_unknown_5" }'), '{ "x-api-key": "ik_u********" }');
+});
+
+test('masked values are not masked again', () => {
+  registerSecret('ik_registered_secret_2');
+
+  assert.equal(redact('API_KEY=ik_registered_secret_2'), 'API_KEY=ik_r********');
+});
+
+test('short values are not registered, so ordinary words stay readable', () => {
+  registerSecret('test');
+
+  assert.equal(redact('a test run'), 'a test run');
+  assert.equal(maskSecret('abcdefgh'), 'abcd********');
+});
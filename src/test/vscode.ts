@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The parts of the vscode API that unit-tested modules use, backed by the real file system.
+ * Tests are bundled with `vscode` aliased to this file (see the "test" script).
+ */
+
+export class Uri {
+  readonly scheme = 'file';
+
+  private constructor(readonly path: string) { }
+
+  get fsPath(): string {
+    return this.path;
+  }
+
+  static file(fsPath: string): Uri {
+    return new Uri(fsPath);
+  }
+
+  static parse(value: string): Uri {
+    return new Uri(decodeURIComponent(value.replace(/^file:\/\//, '')));
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(path.join(base.path, ...segments));
+  }
+
+  toString(): string {
+    return `file://${this.path}`;
+  }
+}
+
+export class FileSystemError extends Error {
+  constructor(message?: string, readonly code = 'Unknown') {
+    super(message);
+  }
+}
+
+export const workspace = {
+  fs: {
+    readFile: async (uri: Uri): Promise<Uint8Array> => {
+      try {
+        return await fs.promises.readFile(uri.fsPath);
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code === 'ENOENT' ? 'FileNotFound' : 'Unknown';
+        throw new FileSystemError(String(error), code);
+      }
+    },
+    // Like VS Code, creates missing parent folders
+    writeFile: async (uri: Uri, content: Uint8Array): Promise<void> => {
+      await fs.promises.mkdir(path.dirname(uri.fsPath), { recursive: true });
+      await fs.promises.writeFile(uri.fsPath, content);
+    },
+    createDirectory: async (uri: Uri): Promise<void> => {
+      await fs.promises.mkdir(uri.fsPath, { recursive: true });
+    },
+    readDirectory: async (uri: Uri): Promise<[string, number][]> =>
+      (await fs.promises.readdir(uri.fsPath)).map(name => [name, 1]),
+    delete: async (uri: Uri, options?: { recursive?: boolean }): Promise<void> =>
+      fs.promises.rm(uri.fsPath, { recursive: !!options?.recursive }),
+  },
+  // No settings are configured in tests, so every read returns its default
+  getConfiguration: () => ({
+    get: <T>(_section: string, defaultValue?: T): T | undefined => defaultValue,
+  }),
+};
+
+// Referenced by tested modules, but only on code paths the tests don't reach
+export const window = {};
+export const commands = {};
+export class TabInputTextDiff { }
+export class EventEmitter { }
+export class RelativePattern { }
+export const Disposable = {};
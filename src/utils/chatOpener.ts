@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { getMcpClient } from './mcpClients';
 
 /**
  * Welcome prompt to send to AI chat after MCP installation
@@ -6,97 +7,9 @@ import * as vscode from 'vscode';
 export const INSFORGE_WELCOME_PROMPT =
   "I'm using InsForge as my backend platform, call InsForge MCP's fetch-docs tool to learn about InsForge instructions.";
 
-/**
- * Chat command configuration for each supported IDE/client
- */
-interface ChatCommandConfig {
-  /** 
-   * Parameter format:
-   * - 'object': pass {query, isPartialQuery} directly (Cursor, VSCode Copilot)
-   * - 'clipboard': copy to clipboard, open chat, wait, paste (most other IDEs are broken)
-   * - 'clipboard-only': just copy to clipboard and notify user (for IDEs with broken commands)
-   * - 'terminal': run command in terminal (Claude Code, Codex)
-   * - undefined: silently skip
-   */
-  paramFormat?: 'object' | 'clipboard' | 'clipboard-only' | 'terminal';
-  /** The VSCode command to execute (for 'object' and 'clipboard' modes) */
-  command?: string;
-  /** CLI command name to run in terminal (for 'terminal' mode, e.g., 'claude', 'codex') */
-  terminalCommand?: string;
-  /** Custom paste delay in ms for clipboard method (default: 150ms) */
-  pasteDelayMs?: number;
-}
-
 /** Default delay before pasting for clipboard method */
 const DEFAULT_PASTE_DELAY_MS = 150;
 
-/**
- * Chat command configurations for all supported IDEs
- * 
- * To add a new IDE:
- * 1. Find the chat command using Ctrl+K Ctrl+S in that IDE
- * 2. Right-click "New Chat" → "Copy Command ID"  
- * 3. Test if {query, isPartialQuery} works - if yes, use 'object'
- * 4. If not, use 'clipboard' (most IDEs are broken and need this workaround)
- */
-const CHAT_COMMANDS: Record<string, ChatCommandConfig> = {
-  // Cursor IDE
-  'cursor': {
-    command: 'workbench.action.chat.open',
-    paramFormat: 'object',
-  },
-
-  // GitHub Copilot in VSCode
-  'copilot': {
-    command: 'workbench.action.chat.open',
-    paramFormat: 'object',
-  },
-
-  // Trae IDE
-  'trae': {
-    command: 'workbench.action.chat.icube.open',
-    paramFormat: 'clipboard',
-  },
-
-  // Qoder IDE - chat command is unreliable, just copy to clipboard and notify
-  'qoder': {
-    paramFormat: 'clipboard-only',
-  },
-
-  // Google Antigravity
-  'antigravity': {
-    command: 'antigravity.prioritized.chat.open',
-    paramFormat: 'clipboard',
-  },
-
-  // Windsurf IDE
-  'windsurf': {
-    command: 'windsurf.prioritized.chat.openNewConversation',
-    paramFormat: 'clipboard',
-  },
-
-  // Kiro IDE
-  'kiro': {
-    command: 'kiroAgent.focusContinueInput',
-    paramFormat: 'clipboard',
-    pasteDelayMs: 1000,
-  },
-
-  // Terminal-based agents - run command in terminal
-  'claude-code': {
-    paramFormat: 'terminal',
-    terminalCommand: 'claude',
-  },
-  'codex': {
-    paramFormat: 'terminal',
-    terminalCommand: 'codex',
-  },
-
-  // No chat integration - silently skip
-  'cline': {},
-  'roocode': {},
-};
-
 /**
  * Result of attempting to open chat
  */
@@ -106,28 +19,19 @@ export interface ChatOpenResult {
   error?: string;
 }
 
-/**
- * Options for tryOpenChatWithPrompt
- */
-export interface ChatOpenOptions {
-  /** Terminal to use for terminal-based agents (claude-code, codex) */
-  terminal?: vscode.Terminal;
-}
-
 /**
  * Try to open AI chat with a welcome prompt based on the client type.
  * 
  * @param clientId - The MCP client ID (e.g., 'cursor', 'copilot', etc.)
  * @param prompt - Optional custom prompt (defaults to INSFORGE_WELCOME_PROMPT)
- * @param options - Optional settings like terminal reference for terminal-based agents
  * @returns Result indicating success and method used
  */
 export async function tryOpenChatWithPrompt(
   clientId: string,
-  prompt: string = INSFORGE_WELCOME_PROMPT,
-  options?: ChatOpenOptions
+  prompt: string = INSFORGE_WELCOME_PROMPT
 ): Promise<ChatOpenResult> {
-  const config = CHAT_COMMANDS[clientId];
+  // Chat strategies are part of the client registry (./mcpClients)
+  const config = getMcpClient(clientId)?.chat;
 
   // No config or no paramFormat = silently skip
   if (!config || !config.paramFormat) {
@@ -154,11 +58,7 @@ export async function tryOpenChatWithPrompt(
       // Just copy to clipboard and notify user (for IDEs with broken commands)
       return await copyToClipboardAndNotify(prompt);
     } else if (config.paramFormat === 'terminal') {
-      return await openChatWithTerminal(
-        config.terminalCommand!,
-        prompt,
-        options?.terminal
-      );
+      return await openChatWithTerminal(config.terminalCommand!, prompt);
     } else {
       return { success: true, method: 'none' };
     }
@@ -245,15 +145,13 @@ async function openChatWithClipboardPaste(
  */
 async function openChatWithTerminal(
   terminalCommand: string,
-  prompt: string,
-  existingTerminal?: vscode.Terminal
+  prompt: string
 ): Promise<ChatOpenResult> {
   // Escape double quotes in prompt for shell safety
   const escapedPrompt = prompt.replace(/"/g, '\\"');
   const fullCommand = `${terminalCommand} "${escapedPrompt}"`;
 
-  // Use existing terminal or create a new one
-  const terminal = existingTerminal ?? vscode.window.createTerminal({
+  const terminal = vscode.window.createTerminal({
     name: `InsForge - ${terminalCommand}`,
   });
 
@@ -263,11 +161,3 @@ async function openChatWithTerminal(
   console.debug(`[chatOpener] Sent to terminal: ${fullCommand}`);
   return { success: true, method: 'terminal' };
 }
-
-/**
- * Check if a client uses terminal-based chat (Claude Code, Codex)
- */
-export function usesTerminalChat(clientId: string): boolean {
-  const config = CHAT_COMMANDS[clientId];
-  return config?.paramFormat === 'terminal';
-}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+
+/**
+ * Set of URLs that make up one InsForge deployment (production, staging, self-hosted...)
+ */
+export interface EnvironmentProfile {
+  /** Platform API base URL, e.g. https://api.insforge.dev */
+  apiUrl: string;
+  /** OAuth authorize endpoint (defaults to `${apiUrl}/api/oauth/v1/authorize`) */
+  authorizeUrl?: string;
+  /** OAuth token endpoint (defaults to `${apiUrl}/api/oauth/v1/token`) */
+  tokenUrl?: string;
+  /** OAuth device authorization endpoint (defaults to `${apiUrl}/api/oauth/v1/device/code`) */
+  deviceAuthorizationUrl?: string;
+  /** Dashboard base URL, e.g. https://insforge.dev/dashboard */
+  dashboardUrl: string;
+  /** Project API URL template, supports {appkey} and {region} placeholders */
+  projectUrlTemplate: string;
+  /** OAuth client ID registered on this deployment (overrides insforge.oauthClientId) */
+  oauthClientId?: string;
+}
+
+/**
+ * Fully resolved endpoints for the active environment
+ */
+export interface ResolvedEndpoints extends Required<Omit<EnvironmentProfile, 'oauthClientId'>> {
+  name: string;
+  oauthClientId?: string;
+}
+
+export const DEFAULT_ENVIRONMENT = 'production';
+
+const BUILT_IN_ENVIRONMENTS: Record<string, EnvironmentProfile> = {
+  production: {
+    apiUrl: 'https://api.insforge.dev',
+    dashboardUrl: 'https://insforge.dev/dashboard',
+    projectUrlTemplate: 'https://{appkey}.{region}.insforge.app',
+  },
+};
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Get all known environment profiles (built-in + user-defined in settings)
+ */
+export function getEnvironmentProfiles(): Record<string, EnvironmentProfile> {
+  const config = vscode.workspace.getConfiguration('insforge');
+  const custom = config.get<Record<string, Partial<EnvironmentProfile>>>('environments', {});
+
+  const profiles: Record<string, EnvironmentProfile> = { ...BUILT_IN_ENVIRONMENTS };
+  for (const [name, profile] of Object.entries(custom)) {
+    // Custom profiles inherit anything they don't set from production
+    profiles[name] = { ...BUILT_IN_ENVIRONMENTS[DEFAULT_ENVIRONMENT], ...profiles[name], ...profile };
+  }
+  return profiles;
+}
+
+/**
+ * Resolve the endpoints of the environment selected by `insforge.environment`.
+ * Read on every call so changes to settings apply without a reload.
+ */
+export function getEndpoints(): ResolvedEndpoints {
+  const config = vscode.workspace.getConfiguration('insforge');
+  const profiles = getEnvironmentProfiles();
+  let name = config.get<string>('environment') || DEFAULT_ENVIRONMENT;
+
+  if (!profiles[name]) {
+    console.warn(`[endpoints] Unknown environment "${name}", falling back to ${DEFAULT_ENVIRONMENT}`);
+    name = DEFAULT_ENVIRONMENT;
+  }
+
+  const profile = profiles[name];
+  const apiUrl = trimTrailingSlash(profile.apiUrl);
+
+  return {
+    name,
+    apiUrl,
+    authorizeUrl: profile.authorizeUrl || `${apiUrl}/api/oauth/v1/authorize`,
+    tokenUrl: profile.tokenUrl || `${apiUrl}/api/oauth/v1/token`,
+    deviceAuthorizationUrl: profile.deviceAuthorizationUrl || `${apiUrl}/api/oauth/v1/device/code`,
+    dashboardUrl: trimTrailingSlash(profile.dashboardUrl),
+    projectUrlTemplate: profile.projectUrlTemplate,
+    oauthClientId: profile.oauthClientId,
+  };
+}
+
+/**
+ * Build a project's API base URL (used for MCP API_BASE_URL and socket connections)
+ */
+export function getProjectApiBaseUrl(project: { appkey: string; region: string }): string {
+  const { projectUrlTemplate } = getEndpoints();
+  return trimTrailingSlash(
+    projectUrlTemplate
+      .replace(/\{appkey\}/g, project.appkey)
+      .replace(/\{region\}/g, project.region)
+  );
+}
+
+/**
+ * Build a dashboard URL for the given path (e.g. `organization/<id>/usage`)
+ */
+export function getDashboardUrl(path: string): string {
+  return `${getEndpoints().dashboardUrl}/${path.replace(/^\/+/, '')}`;
+}
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { redact } from './redact';
+
+/**
+ * Terminal that shows MCP installer output while it streams in.
+ * Backed by a Pseudoterminal, so output written before the terminal opens is buffered
+ * and ANSI colors from the installer are passed through untouched.
+ */
+export class InstallerTerminal implements vscode.Pseudoterminal {
+  private readonly _onDidWrite = new vscode.EventEmitter<string>();
+  readonly onDidWrite = this._onDidWrite.event;
+
+  readonly terminal: vscode.Terminal;
+
+  private _opened = false;
+  private _pending: string[] = [];
+
+  constructor(name: string) {
+    this.terminal = vscode.window.createTerminal({ name, pty: this });
+  }
+
+  open(): void {
+    this._opened = true;
+    this._pending.forEach(data => this._onDidWrite.fire(data));
+    this._pending = [];
+  }
+
+  close(): void {
+    this._opened = false;
+    this._onDidWrite.dispose();
+  }
+
+  /**
+   * Write raw output, with API keys masked (terminals need \r\n for proper line breaks)
+   */
+  write(text: string): void {
+    const data = redact(text).replace(/\r?\n/g, '\r\n');
+    if (this._opened) {
+      this._onDidWrite.fire(data);
+    } else {
+      this._pending.push(data);
+    }
+  }
+
+  writeLine(text = ''): void {
+    this.write(`${text}\n`);
+  }
+
+  show(): void {
+    this.terminal.show(true);
+  }
+
+  dispose(): void {
+    this.terminal.dispose();
+  }
+}
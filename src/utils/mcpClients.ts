@@ -0,0 +1,425 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+import { McpConfigFormat, McpConfigLocation, McpRemoteShape, McpRemoteTransport } from './mcpConfig';
+
+/**
+ * Registry of the AI clients InsForge MCP can be installed into: where each one keeps
+ * its MCP config, how it is detected and how its chat is opened after an install.
+ * Built-in entries can be extended or overridden with the insforge.mcpClients setting.
+ */
+
+/**
+ * How to open a client's chat with the welcome prompt
+ */
+export interface ChatCommandConfig {
+  /**
+   * Parameter format:
+   * - 'object': pass {query, isPartialQuery} directly (Cursor, VSCode Copilot)
+   * - 'clipboard': copy to clipboard, open chat, wait, paste (most other IDEs are broken)
+   * - 'clipboard-only': just copy to clipboard and notify user (for IDEs with broken commands)
+   * - 'terminal': run command in terminal (Claude Code, Codex)
+   * - undefined: silently skip
+   */
+  paramFormat?: 'object' | 'clipboard' | 'clipboard-only' | 'terminal';
+  /** The VSCode command to execute (for 'object' and 'clipboard' modes) */
+  command?: string;
+  /** CLI command name to run in terminal (for 'terminal' mode, e.g., 'claude', 'codex') */
+  terminalCommand?: string;
+  /** Custom paste delay in ms for clipboard method (default: 150ms) */
+  pasteDelayMs?: number;
+}
+
+/**
+ * Config file path template(s). Candidates are tried in order; the first that resolves is used.
+ * Supports `~`, `${home}`, `${appData}`, `${userData}` (this editor's User folder),
+ * `${workspaceFolder}` and `${env:NAME}`. A candidate with an unset variable is skipped.
+ */
+export type McpClientConfigPath = string | string[] | Partial<Record<'win32' | 'darwin' | 'linux' | 'default', string | string[]>>;
+
+export interface McpClientDefinition {
+  /** Client ID (also the `--client` value for npx @insforge/install) */
+  id: string;
+  label: string;
+  description: string;
+  configPath: McpClientConfigPath;
+  format: McpConfigFormat;
+  /** Config lives in the workspace folder rather than the user's home */
+  projectLocal: boolean;
+  /** SVG name in resources/agents, or a codicon such as `$(plug)` */
+  icon: string;
+  chat?: ChatCommandConfig;
+  /** How the client is recognized: the host editor (vscode.env.appName / uriScheme) or an installed extension */
+  detect?: { hosts?: string[]; extensions?: string[] };
+  /** Supported by `npx @insforge/install` (the fallback when the config can't be written directly) */
+  npxInstaller?: boolean;
+  /** Remote transports the client supports, and how its config describes them (stdio only if unset) */
+  remote?: Partial<Record<McpRemoteTransport, McpRemoteShape>>;
+}
+
+export interface McpConfigPathOptions {
+  /** Folder that receives project-local configs (.mcp.json, .vscode/mcp.json) */
+  workspaceFolder?: string;
+  /** This extension's globalStorageUri; Cline and Roo Code keep their settings in sibling folders */
+  globalStorageUri: vscode.Uri;
+}
+
+const MCP_CONFIG_FORMATS: McpConfigFormat[] = ['mcpServers', 'vscode', 'zed', 'codexToml'];
+
+const DEFAULT_CUSTOM_ICON = '$(plug)';
+
+/**
+ * Built-in clients. To add one, find where it reads MCP servers from and, for chat,
+ * its command ID (Ctrl+K Ctrl+S → right-click "New Chat" → "Copy Command ID"). Use
+ * 'object' if the command accepts {query, isPartialQuery}, otherwise 'clipboard'.
+ */
+const BUILT_IN_MCP_CLIENTS: McpClientDefinition[] = [
+  {
+    id: 'cursor',
+    label: 'Cursor',
+    description: 'Cursor IDE (~/.cursor/mcp.json)',
+    configPath: '~/.cursor/mcp.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'cursor',
+    chat: { command: 'workbench.action.chat.open', paramFormat: 'object' },
+    detect: { hosts: ['cursor'] },
+    npxInstaller: true,
+    remote: { http: {}, sse: {} },
+  },
+  {
+    id: 'claude-code',
+    label: 'Claude Code',
+    description: 'Project-local (.mcp.json in workspace)',
+    configPath: '${workspaceFolder}/.mcp.json',
+    format: 'mcpServers',
+    projectLocal: true,
+    icon: 'claude_code',
+    chat: { paramFormat: 'terminal', terminalCommand: 'claude' },
+    detect: { extensions: ['anthropic.claude-code'] },
+    npxInstaller: true,
+    remote: { http: { type: 'http' }, sse: { type: 'sse' } },
+  },
+  {
+    id: 'antigravity',
+    label: 'Google Antigravity',
+    description: 'Google Antigravity (~/.gemini/antigravity/mcp_config.json)',
+    configPath: '~/.gemini/antigravity/mcp_config.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'antigravity',
+    chat: { command: 'antigravity.prioritized.chat.open', paramFormat: 'clipboard' },
+    detect: { hosts: ['antigravity'] },
+    npxInstaller: true,
+    remote: { http: { urlKey: 'serverUrl' } },
+  },
+  {
+    id: 'windsurf',
+    label: 'Windsurf',
+    description: 'Windsurf IDE (~/.codeium/windsurf/mcp_config.json)',
+    configPath: '~/.codeium/windsurf/mcp_config.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'windsurf',
+    chat: { command: 'windsurf.prioritized.chat.openNewConversation', paramFormat: 'clipboard' },
+    detect: { hosts: ['windsurf'] },
+    npxInstaller: true,
+    remote: { http: { urlKey: 'serverUrl' }, sse: { urlKey: 'serverUrl' } },
+  },
+  {
+    id: 'cline',
+    label: 'Cline',
+    description: 'Cline VS Code Extension (VS Code globalStorage)',
+    configPath: '${userData}/globalStorage/saoudrizwan.claude-dev/settings/cline_mcp_settings.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'cline',
+    detect: { extensions: ['saoudrizwan.claude-dev'] },
+    npxInstaller: true,
+    remote: { http: { type: 'streamableHttp' }, sse: { type: 'sse' } },
+  },
+  {
+    id: 'roocode',
+    label: 'Roo Code',
+    description: 'Roo-Code VS Code Extension (VS Code globalStorage)',
+    configPath: '${userData}/globalStorage/rooveterinaryinc.roo-cline/settings/mcp_settings.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'roo_code',
+    detect: { extensions: ['rooveterinaryinc.roo-cline'] },
+    npxInstaller: true,
+    remote: { http: { type: 'streamable-http' }, sse: { type: 'sse' } },
+  },
+  {
+    id: 'copilot',
+    label: 'GitHub Copilot',
+    description: 'Project-local (.vscode/mcp.json)',
+    configPath: '${workspaceFolder}/.vscode/mcp.json',
+    format: 'vscode',
+    projectLocal: true,
+    icon: 'copilot',
+    chat: { command: 'workbench.action.chat.open', paramFormat: 'object' },
+    detect: { extensions: ['github.copilot-chat'] },
+    npxInstaller: true,
+    remote: { http: { type: 'http' }, sse: { type: 'sse' } },
+  },
+  {
+    id: 'codex',
+    label: 'Codex',
+    description: 'OpenAI Codex CLI (~/.codex/config.toml)',
+    configPath: ['${env:CODEX_HOME}/config.toml', '~/.codex/config.toml'],
+    format: 'codexToml',
+    projectLocal: false,
+    icon: 'codex',
+    chat: { paramFormat: 'terminal', terminalCommand: 'codex' },
+    detect: { extensions: ['openai.chatgpt'] },
+    npxInstaller: true,
+    remote: { http: {} },
+  },
+  {
+    id: 'trae',
+    label: 'Trae',
+    description: 'Trae IDE (Trae/User/mcp.json)',
+    configPath: '${appData}/Trae/User/mcp.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'trae',
+    chat: { command: 'workbench.action.chat.icube.open', paramFormat: 'clipboard' },
+    detect: { hosts: ['trae'] },
+    npxInstaller: true,
+    remote: { http: {}, sse: {} },
+  },
+  {
+    id: 'qoder',
+    label: 'Qoder',
+    description: 'Qoder IDE (Qoder/SharedClientCache/mcp.json)',
+    configPath: '${appData}/Qoder/SharedClientCache/mcp.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'qoder',
+    // Chat command is unreliable, just copy to clipboard and notify
+    chat: { paramFormat: 'clipboard-only' },
+    detect: { hosts: ['qoder'] },
+    npxInstaller: true,
+    remote: { http: {}, sse: {} },
+  },
+  {
+    id: 'kiro',
+    label: 'Kiro',
+    description: 'Kiro IDE (~/.kiro/settings/mcp.json)',
+    configPath: '~/.kiro/settings/mcp.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: 'kiro',
+    chat: { command: 'kiroAgent.focusContinueInput', paramFormat: 'clipboard', pasteDelayMs: 1000 },
+    detect: { hosts: ['kiro'] },
+    npxInstaller: true,
+    remote: { http: {}, sse: {} },
+  },
+  {
+    id: 'vscode-user',
+    label: 'VS Code (User)',
+    description: 'VS Code user-level MCP (User/mcp.json)',
+    configPath: '${userData}/mcp.json',
+    format: 'vscode',
+    projectLocal: false,
+    icon: '$(vscode)',
+    chat: { command: 'workbench.action.chat.open', paramFormat: 'object' },
+    detect: { hosts: ['visual studio code'] },
+    remote: { http: { type: 'http' }, sse: { type: 'sse' } },
+  },
+  {
+    id: 'claude-desktop',
+    label: 'Claude Desktop',
+    description: 'Claude Desktop app (Claude/claude_desktop_config.json)',
+    configPath: '${appData}/Claude/claude_desktop_config.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: '$(device-desktop)',
+  },
+  {
+    id: 'gemini-cli',
+    label: 'Gemini CLI',
+    description: 'Google Gemini CLI (~/.gemini/settings.json)',
+    configPath: '~/.gemini/settings.json',
+    format: 'mcpServers',
+    projectLocal: false,
+    icon: '$(terminal)',
+    chat: { paramFormat: 'terminal', terminalCommand: 'gemini' },
+    detect: { extensions: ['google.gemini-cli-vscode-ide-companion'] },
+    remote: { http: { urlKey: 'httpUrl' }, sse: { urlKey: 'url' } },
+  },
+  {
+    id: 'zed',
+    label: 'Zed',
+    description: 'Zed editor (zed/settings.json)',
+    configPath: {
+      win32: '${appData}/Zed/settings.json',
+      darwin: '~/.config/zed/settings.json',
+      default: '${appData}/zed/settings.json',
+    },
+    format: 'zed',
+    projectLocal: false,
+    icon: '$(zap)',
+    remote: { http: {} },
+  },
+  {
+    id: 'continue',
+    label: 'Continue',
+    description: 'Project-local (.continue/mcpServers/insforge.json)',
+    configPath: '${workspaceFolder}/.continue/mcpServers/insforge.json',
+    format: 'mcpServers',
+    projectLocal: true,
+    icon: '$(debug-continue)',
+    detect: { extensions: ['continue.continue'] },
+    remote: { http: { type: 'streamable-http' }, sse: { type: 'sse' } },
+  },
+];
+
+/**
+ * Per-user application data folder (where Trae, Qoder and Claude Desktop keep their settings)
+ */
+function getAppDataDir(): string {
+  switch (process.platform) {
+    case 'win32':
+      return process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    case 'darwin':
+      return path.join(os.homedir(), 'Library', 'Application Support');
+    default:
+      return process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  }
+}
+
+/**
+ * Check a custom client from settings, filling in defaults. Returns undefined (and logs) if it is unusable.
+ */
+function parseCustomClient(value: Partial<McpClientDefinition>, builtIn?: McpClientDefinition): McpClientDefinition | undefined {
+  const client = { ...builtIn, ...value };
+  if (!client.id || !client.label || !client.configPath) {
+    console.warn('[mcpClients] Ignoring custom MCP client without id, label or configPath:', value);
+    return undefined;
+  }
+  if (client.format && !MCP_CONFIG_FORMATS.includes(client.format)) {
+    console.warn(`[mcpClients] Ignoring custom MCP client ${client.id}: unknown format ${client.format}`);
+    return undefined;
+  }
+
+  const projectLocal = client.projectLocal ?? JSON.stringify(client.configPath).includes('${workspaceFolder}');
+  return {
+    ...client,
+    id: client.id,
+    label: client.label,
+    configPath: client.configPath,
+    description: client.description || 'Custom client',
+    format: client.format || 'mcpServers',
+    projectLocal,
+    icon: client.icon || DEFAULT_CUSTOM_ICON,
+  };
+}
+
+/**
+ * Built-in clients plus those from insforge.mcpClients (an entry with a built-in ID overrides its fields)
+ */
+export function getMcpClients(): McpClientDefinition[] {
+  const clients = [...BUILT_IN_MCP_CLIENTS];
+  const custom = vscode.workspace.getConfiguration('insforge').get<Partial<McpClientDefinition>[]>('mcpClients', []);
+
+  for (const value of Array.isArray(custom) ? custom : []) {
+    const index = clients.findIndex(client => client.id === value.id);
+    const client = parseCustomClient(value, index >= 0 ? clients[index] : undefined);
+    if (!client) {
+      continue;
+    }
+    if (index >= 0) {
+      clients[index] = client;
+    } else {
+      clients.push(client);
+    }
+  }
+
+  return clients;
+}
+
+export function getMcpClient(clientId: string): McpClientDefinition | undefined {
+  return getMcpClients().find(client => client.id === clientId);
+}
+
+/**
+ * IDs of the clients that match the editor the extension runs in or its installed extensions
+ */
+export function detectMcpClients(): Set<string> {
+  const host = `${vscode.env.appName} ${vscode.env.uriScheme}`.toLowerCase();
+  const detected = new Set<string>();
+
+  for (const client of getMcpClients()) {
+    const hostMatches = client.detect?.hosts?.some(name => host.includes(name.toLowerCase()));
+    const extensionInstalled = client.detect?.extensions?.some(id => vscode.extensions.getExtension(id));
+    if (hostMatches || extensionInstalled) {
+      detected.add(client.id);
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Expand one path template, or return undefined if a variable it uses is not available
+ */
+function expandConfigPath(template: string, options: McpConfigPathOptions): string | undefined {
+  const variables: Record<string, string | undefined> = {
+    home: os.homedir(),
+    appData: getAppDataDir(),
+    userData: path.dirname(path.dirname(options.globalStorageUri.fsPath)),
+    workspaceFolder: options.workspaceFolder,
+  };
+
+  let missing = false;
+  const expanded = template
+    .replace(/^~(?=$|[\\/])/, os.homedir())
+    .replace(/\$\{(env:)?([\w.-]+)\}/g, (_match, env: string | undefined, name: string) => {
+      const value = env ? process.env[name] : variables[name];
+      missing = missing || !value;
+      return value || '';
+    });
+
+  return missing ? undefined : path.normalize(expanded);
+}
+
+/**
+ * Locate the config file the given client reads its MCP servers from.
+ * Returns undefined for unknown clients, or when no path candidate resolves
+ * (e.g. a project-local client without a workspace folder).
+ */
+export function getMcpConfigLocation(clientId: string, options: McpConfigPathOptions): McpConfigLocation | undefined {
+  const client = getMcpClient(clientId);
+  if (!client) {
+    return undefined;
+  }
+
+  const { configPath } = client;
+  const candidates = typeof configPath === 'string' || Array.isArray(configPath)
+    ? configPath
+    : configPath[process.platform as 'win32' | 'darwin' | 'linux'] ?? configPath.default ?? [];
+
+  for (const template of typeof candidates === 'string' ? [candidates] : candidates) {
+    const fsPath = expandConfigPath(template, options);
+    if (fsPath) {
+      return { uri: vscode.Uri.file(fsPath), format: client.format };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Icon for pickers: a bundled SVG matching the color theme, or a codicon
+ */
+export function getMcpClientIcon(client: McpClientDefinition, extensionUri: vscode.Uri): vscode.Uri | vscode.ThemeIcon {
+  const codicon = client.icon.match(/^\$\((.+)\)$/);
+  if (codicon) {
+    return new vscode.ThemeIcon(codicon[1]);
+  }
+
+  const theme = vscode.window.activeColorTheme;
+  const dark = theme.kind === vscode.ColorThemeKind.Dark || theme.kind === vscode.ColorThemeKind.HighContrast;
+  return vscode.Uri.joinPath(extensionUri, 'resources', 'agents', `${client.icon}${dark ? '' : '-light'}.svg`);
+}
@@ -0,0 +1,657 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { applyEdits, FormattingOptions, JSONPath, modify, parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+import { findMcpPackageVersion, getMcpPackageSpec, MCP_PACKAGE, withMcpPackageVersion } from './mcpVersion';
+
+/**
+ * In-extension writers for the MCP config file of each supported client.
+ * They replace `npx @insforge/install` (no npm access needed) and let the user
+ * preview the change in a diff editor before anything is written.
+ */
+
+/** Name of the server entry the extension manages in every client config */
+export const MCP_SERVER_NAME = 'insforge';
+
+/**
+ * Layout of a client's config file:
+ * - 'mcpServers': JSON `{ "mcpServers": { "<name>": { command, args, env } } }` (most clients)
+ * - 'vscode': JSON `{ "servers": { "<name>": { type: "stdio", command, args, env } } }` (.vscode/mcp.json)
+ * - 'zed': JSON `{ "context_servers": { "<name>": { source: "custom", command, args, env } } }` (Zed settings.json)
+ * - 'codexToml': TOML `[mcp_servers.<name>]` tables (Codex config.toml)
+ */
+export type McpConfigFormat = 'mcpServers' | 'vscode' | 'zed' | 'codexToml';
+
+type JsonConfigFormat = Exclude<McpConfigFormat, 'codexToml'>;
+
+// Key that holds the servers in each JSON layout, and fields a stdio entry needs besides command/args/env
+const JSON_LAYOUTS: Record<JsonConfigFormat, { key: string; entryFields: Record<string, string> }> = {
+  mcpServers: { key: 'mcpServers', entryFields: {} },
+  vscode: { key: 'servers', entryFields: { type: 'stdio' } },
+  zed: { key: 'context_servers', entryFields: { source: 'custom' } },
+};
+
+export interface McpConfigLocation {
+  uri: vscode.Uri;
+  format: McpConfigFormat;
+}
+
+export interface McpCredentials {
+  apiKey: string;
+  apiBaseUrl: string;
+}
+
+/**
+ * How an AI client reaches the InsForge MCP server:
+ * - 'stdio': runs `npx @insforge/mcp` locally with the credentials in its environment
+ * - 'http' / 'sse': connects to the project's hosted MCP endpoint (Streamable HTTP or SSE), authenticating with a header
+ */
+export type McpTransport = 'stdio' | 'http' | 'sse';
+
+export type McpRemoteTransport = Exclude<McpTransport, 'stdio'>;
+
+/**
+ * How a client's config describes a remote server: its `type` value (omitted if unset)
+ * and the key that holds the URL (default 'url')
+ */
+export interface McpRemoteShape {
+  type?: string;
+  urlKey?: string;
+}
+
+export interface McpServerOptions {
+  transport: McpTransport;
+  /** Only used for remote transports */
+  remoteShape?: McpRemoteShape;
+}
+
+// Header that carries the project API key to the hosted MCP endpoint
+export const MCP_API_KEY_HEADER = 'x-api-key';
+
+// Path of the hosted MCP endpoint under the project's API base URL
+const MCP_ENDPOINT_PATHS: Record<McpRemoteTransport, string> = {
+  http: '/mcp',
+  sse: '/sse',
+};
+
+type McpServerEntry =
+  | { command: string; args: string[]; env: Record<string, string> }
+  | { url: string; headers: Record<string, string> };
+
+/**
+ * An InsForge server entry found in a config file
+ */
+export interface McpConfigServer {
+  /** Key of the entry (usually MCP_SERVER_NAME) */
+  name: string;
+  env: Record<string, string>;
+  /** Version or tag of @insforge/mcp it launches ('' if unversioned, undefined if it runs something else) */
+  version?: string;
+  transport: McpTransport;
+  /** From API_BASE_URL (stdio) or the endpoint URL (remote) */
+  apiBaseUrl?: string;
+  /** From API_KEY (stdio) or the API key header (remote) */
+  apiKey?: string;
+}
+
+// Scheme of the virtual documents shown in the preview diff
+const PREVIEW_SCHEME = 'insforge-mcp-preview';
+const previewContents: Map<string, string> = new Map();
+
+/**
+ * Path for messages, with the home folder shortened to ~
+ */
+export function displayConfigPath(uri: vscode.Uri): string {
+  const home = os.homedir();
+  return uri.fsPath.startsWith(home) ? `~${uri.fsPath.slice(home.length)}` : uri.fsPath;
+}
+
+/**
+ * URL of the project's hosted MCP endpoint for a remote transport
+ */
+export function getMcpServerUrl(apiBaseUrl: string, transport: McpRemoteTransport): string {
+  return `${apiBaseUrl.replace(/\/+$/, '')}${MCP_ENDPOINT_PATHS[transport]}`;
+}
+
+/**
+ * Project API base URL and transport of a hosted MCP endpoint URL, or undefined for other URLs
+ */
+function parseMcpServerUrl(url: string): { apiBaseUrl: string; transport: McpRemoteTransport } | undefined {
+  for (const [transport, endpointPath] of Object.entries(MCP_ENDPOINT_PATHS) as [McpRemoteTransport, string][]) {
+    const trimmed = url.replace(/\/+$/, '');
+    if (trimmed.endsWith(endpointPath)) {
+      return { apiBaseUrl: trimmed.slice(0, -endpointPath.length), transport };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The server entry for a transport: npx for stdio, the hosted endpoint with a header for remote ones
+ */
+function buildServerEntry(credentials: McpCredentials, transport: McpTransport): McpServerEntry {
+  if (transport !== 'stdio') {
+    return {
+      url: getMcpServerUrl(credentials.apiBaseUrl, transport),
+      headers: { [MCP_API_KEY_HEADER]: credentials.apiKey },
+    };
+  }
+
+  const env = { API_KEY: credentials.apiKey, API_BASE_URL: credentials.apiBaseUrl };
+  const args = ['-y', getMcpPackageSpec()];
+
+  // npx is a batch file on Windows, which clients can't spawn directly
+  return process.platform === 'win32'
+    ? { command: 'cmd', args: ['/c', 'npx', ...args], env }
+    : { command: 'npx', args, env };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getJsonServers(config: Record<string, unknown>, format: JsonConfigFormat): Record<string, unknown> {
+  const { key } = JSON_LAYOUTS[format];
+  return isObject(config[key]) ? config[key] as Record<string, unknown> : {};
+}
+
+/**
+ * Parse a JSON config, which may contain comments and trailing commas (allowed in VS Code's mcp.json).
+ * Errors name the problem and where it is, without quoting the file (which holds API keys).
+ */
+function parseJsonConfig(text: string | undefined): Record<string, unknown> {
+  const errors: ParseError[] = [];
+  const config = text?.trim() ? parse(text, errors, { allowTrailingComma: true }) : {};
+  if (errors.length > 0) {
+    const { error, offset } = errors[0];
+    const lines = text!.slice(0, offset).split('\n');
+    throw new Error(`${printParseErrorCode(error)} at line ${lines.length}, column ${lines[lines.length - 1].length + 1} (offset ${offset})`);
+  }
+  if (!isObject(config)) {
+    throw new Error('the file does not contain a JSON object');
+  }
+  return config;
+}
+
+/**
+ * Entries we manage, or that launch the InsForge MCP package under another name
+ */
+function isInsForgeServer(name: string, launch: string): boolean {
+  return name === MCP_SERVER_NAME || launch.includes('@insforge/mcp');
+}
+
+/**
+ * An entry as read from a config file, before its credentials are picked out
+ */
+interface RawServer {
+  launch: string;
+  env: Record<string, string>;
+  url?: string;
+  headers: Record<string, string>;
+  type?: string;
+}
+
+/**
+ * Take the credentials from the environment (stdio) or from the endpoint URL and headers (remote)
+ */
+function toConfigServer(name: string, server: RawServer): McpConfigServer {
+  if (!server.url) {
+    return {
+      name,
+      env: server.env,
+      version: findMcpPackageVersion(server.launch),
+      transport: 'stdio',
+      apiBaseUrl: server.env.API_BASE_URL,
+      apiKey: server.env.API_KEY,
+    };
+  }
+
+  const endpoint = parseMcpServerUrl(server.url);
+  const apiKeyHeader = Object.keys(server.headers).find(key => key.toLowerCase() === MCP_API_KEY_HEADER);
+  return {
+    name,
+    env: server.env,
+    transport: server.type?.toLowerCase().includes('sse') || endpoint?.transport === 'sse' ? 'sse' : 'http',
+    apiBaseUrl: endpoint?.apiBaseUrl,
+    apiKey: apiKeyHeader && server.headers[apiKeyHeader],
+  };
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  return isObject(value)
+    ? Object.fromEntries(Object.entries(value).map(([key, v]) => [key, String(v)]))
+    : {};
+}
+
+function findJsonServers(text: string | undefined, format: JsonConfigFormat): McpConfigServer[] {
+  const servers = getJsonServers(parseJsonConfig(text), format);
+
+  return Object.entries(servers).flatMap(([name, value]) => {
+    if (!isObject(value)) {
+      return [];
+    }
+    const args = Array.isArray(value.args) ? value.args : [];
+    const launch = [value.command, ...args].join(' ');
+    if (!isInsForgeServer(name, launch)) {
+      return [];
+    }
+    // Remote entries keep their endpoint under 'url', or 'serverUrl' / 'httpUrl' in some clients
+    const url = [value.url, value.serverUrl, value.httpUrl].find((v): v is string => typeof v === 'string');
+    return [toConfigServer(name, {
+      launch,
+      env: toStringRecord(value.env),
+      url,
+      headers: toStringRecord(value.headers),
+      type: typeof value.type === 'string' ? value.type : undefined,
+    })];
+  });
+}
+
+/**
+ * Indentation and line endings for edits, following the file's own style
+ */
+function jsonFormatting(text: string): FormattingOptions {
+  const indent = text.match(/^([ \t]+)"/m)?.[1] || '  ';
+  return {
+    insertSpaces: !indent.includes('\t'),
+    tabSize: indent.includes('\t') ? 1 : indent.length,
+    eol: text.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+/**
+ * Set (or, with undefined, remove) the value at a path with a minimal text edit,
+ * so comments and formatting elsewhere in the file are kept
+ */
+function editJson(text: string, path: JSONPath, value: unknown): string {
+  return applyEdits(text, modify(text, path, value, { formattingOptions: jsonFormatting(text) }));
+}
+
+function removeJsonServers(text: string | undefined, format: JsonConfigFormat, names: string[]): string {
+  const servers = getJsonServers(parseJsonConfig(text), format);
+  const { key } = JSON_LAYOUTS[format];
+  return names
+    .filter(name => name in servers)
+    .reduce((result, name) => editJson(result, [key, name], undefined), text || '');
+}
+
+/**
+ * Path of the API key in a JSON server entry: its key header for remote entries, env.API_KEY otherwise
+ */
+function jsonApiKeyPath(value: Record<string, unknown>): string[] {
+  if (![value.url, value.serverUrl, value.httpUrl].some(v => typeof v === 'string')) {
+    return ['env', 'API_KEY'];
+  }
+  const headers = isObject(value.headers) ? Object.keys(value.headers) : [];
+  return ['headers', headers.find(key => key.toLowerCase() === MCP_API_KEY_HEADER) || MCP_API_KEY_HEADER];
+}
+
+function setJsonServerApiKey(text: string | undefined, format: JsonConfigFormat, name: string, apiKey: string): string {
+  const server = getJsonServers(parseJsonConfig(text), format)[name];
+  if (!isObject(server)) {
+    throw new Error(`the config has no "${name}" server`);
+  }
+  return editJson(text || '', [JSON_LAYOUTS[format].key, name, ...jsonApiKeyPath(server)], apiKey);
+}
+
+function setJsonServerPackageVersion(text: string | undefined, format: JsonConfigFormat, name: string, version: string): string {
+  const server = getJsonServers(parseJsonConfig(text), format)[name];
+  const args = isObject(server) && Array.isArray(server.args) ? server.args : [];
+  const index = args.findIndex(arg => typeof arg === 'string' && findMcpPackageVersion(arg) !== undefined);
+  if (index === -1) {
+    throw new Error(`the "${name}" server doesn't launch ${MCP_PACKAGE}`);
+  }
+  return editJson(text || '', [JSON_LAYOUTS[format].key, name, 'args', index], withMcpPackageVersion(args[index], version));
+}
+
+function setJsonServer(
+  text: string | undefined,
+  format: JsonConfigFormat,
+  entry: McpServerEntry,
+  remoteShape: McpRemoteShape = {}
+): string {
+  const config = parseJsonConfig(text);
+  const { key, entryFields } = JSON_LAYOUTS[format];
+  const value = 'url' in entry
+    ? {
+      ...(remoteShape.type ? { type: remoteShape.type } : {}),
+      [remoteShape.urlKey || 'url']: entry.url,
+      headers: entry.headers,
+    }
+    : { ...entryFields, ...entry };
+
+  // A missing or non-object servers key is replaced as a whole
+  const path = isObject(config[key]) ? [key, MCP_SERVER_NAME] : [key];
+  const base = text?.trim() ? text : '{}\n';
+  return editJson(base, path, path.length === 1 ? { [MCP_SERVER_NAME]: value } : value);
+}
+
+// JSON string escapes are valid TOML basic strings
+const tomlString = (value: string) => JSON.stringify(value);
+
+/**
+ * Table name of a TOML header line (without brackets and quotes), or undefined for other lines
+ */
+function tomlTableName(line: string): string | undefined {
+  const header = line.match(/^\s*\[\[?([^[\]]+)\]\]?\s*(#.*)?$/);
+  return header ? header[1].replace(/["'\s]/g, '') : undefined;
+}
+
+/**
+ * Value of a TOML string (basic or literal); other values are returned as written
+ */
+function tomlValue(raw: string): string {
+  const value = raw.replace(/\s+#.*$/, '').trim();
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return value.startsWith("'") ? value.slice(1, -1) : value;
+}
+
+/**
+ * Drop the `[mcp_servers.<name>]` tables (and their sub-tables) of the given servers,
+ * keeping everything else (including comments) as-is
+ */
+function removeCodexTables(text: string | undefined, names: string[]): string[] {
+  const kept: string[] = [];
+  let skipping = false;
+  for (const line of (text || '').split(/\r?\n/)) {
+    const table = tomlTableName(line);
+    if (table !== undefined) {
+      skipping = names.some(name => table === `mcp_servers.${name}` || table.startsWith(`mcp_servers.${name}.`));
+    }
+    if (!skipping) {
+      kept.push(line);
+    }
+  }
+
+  while (kept.length > 0 && !kept[kept.length - 1].trim()) {
+    kept.pop();
+  }
+  return kept;
+}
+
+function findCodexServers(text: string | undefined): McpConfigServer[] {
+  const servers: Map<string, RawServer> = new Map();
+  let current: RawServer | undefined;
+  // Sub-table the following keys belong to: [mcp_servers.<name>.env] or [mcp_servers.<name>.http_headers]
+  let subTable: 'env' | 'headers' | undefined;
+
+  for (const line of (text || '').split(/\r?\n/)) {
+    const table = tomlTableName(line);
+    if (table !== undefined) {
+      const match = table.match(/^mcp_servers\.([^.]+)(?:\.(env|http_headers))?$/);
+      current = undefined;
+      if (match) {
+        current = servers.get(match[1]) || { launch: '', env: {}, headers: {} };
+        servers.set(match[1], current);
+        subTable = match[2] === 'http_headers' ? 'headers' : match[2] === 'env' ? 'env' : undefined;
+      }
+      continue;
+    }
+
+    const pair = line.match(/^\s*"?([\w-]+)"?\s*=\s*(.+)$/);
+    if (!current || !pair) {
+      continue;
+    }
+
+    const [, key, raw] = pair;
+    if (subTable) {
+      current[subTable][key] = tomlValue(raw);
+    } else if (key === 'command' || key === 'args') {
+      current.launch += ` ${raw}`;
+    } else if (key === 'url') {
+      current.url = tomlValue(raw);
+    } else if (key === 'env' || key === 'http_headers') {
+      // Inline table: env = { API_KEY = "...", API_BASE_URL = "..." }
+      const target = key === 'env' ? current.env : current.headers;
+      for (const [, tableKey, tableValue] of raw.matchAll(/"?([\w-]+)"?\s*=\s*("(?:[^"\\]|\\.)*"|'[^']*')/g)) {
+        target[tableKey] = tomlValue(tableValue);
+      }
+    }
+  }
+
+  return [...servers.entries()]
+    .filter(([name, server]) => isInsForgeServer(name, server.launch))
+    .map(([name, server]) => toConfigServer(name, server));
+}
+
+function setCodexServer(text: string | undefined, entry: McpServerEntry): string {
+  const kept = removeCodexTables(text, [MCP_SERVER_NAME]);
+
+  const table = 'url' in entry
+    ? [
+      `[mcp_servers.${MCP_SERVER_NAME}]`,
+      `url = ${tomlString(entry.url)}`,
+      '',
+      `[mcp_servers.${MCP_SERVER_NAME}.http_headers]`,
+      ...Object.entries(entry.headers).map(([key, value]) => `${tomlString(key)} = ${tomlString(value)}`),
+    ]
+    : [
+      `[mcp_servers.${MCP_SERVER_NAME}]`,
+      `command = ${tomlString(entry.command)}`,
+      `args = [${entry.args.map(tomlString).join(', ')}]`,
+      '',
+      `[mcp_servers.${MCP_SERVER_NAME}.env]`,
+      ...Object.entries(entry.env).map(([key, value]) => `${key} = ${tomlString(value)}`),
+    ];
+
+  return [...kept, ...(kept.length > 0 ? [''] : []), ...table, ''].join('\n');
+}
+
+/**
+ * Replace the API key of the `[mcp_servers.<name>]` server, in its env / http_headers
+ * sub-table or inline table. Other lines are kept as-is.
+ */
+function setCodexServerApiKey(text: string | undefined, name: string, apiKey: string): string {
+  const lines = (text || '').split('\n');
+  let table: string | undefined;
+  let replaced = false;
+
+  const updated = lines.map(line => {
+    const header = tomlTableName(line);
+    if (header !== undefined) {
+      table = header;
+      return line;
+    }
+
+    if (table === `mcp_servers.${name}.env` || table === `mcp_servers.${name}.http_headers`) {
+      const keyName = table.endsWith('.env') ? 'API_KEY' : MCP_API_KEY_HEADER;
+      const pair = line.match(/^(\s*"?([\w-]+)"?\s*=\s*)("(?:[^"\\]|\\.)*"|'[^']*')(.*)$/);
+      if (pair && pair[2].toLowerCase() === keyName.toLowerCase()) {
+        replaced = true;
+        return `${pair[1]}${tomlString(apiKey)}${pair[4]}`;
+      }
+    } else if (table === `mcp_servers.${name}`) {
+      // Inline table: env = { API_KEY = "..." } or http_headers = { "x-api-key" = "..." }
+      return line.replace(
+        /^(\s*(?:env|http_headers)\s*=\s*\{.*?"?(?:API_KEY|x-api-key)"?\s*=\s*)("(?:[^"\\]|\\.)*"|'[^']*')/i,
+        (_match, prefix: string) => {
+          replaced = true;
+          return `${prefix}${tomlString(apiKey)}`;
+        }
+      );
+    }
+    return line;
+  });
+
+  if (!replaced) {
+    throw new Error(`the "${name}" server has no API key to replace`);
+  }
+  return updated.join('\n');
+}
+
+/**
+ * Point the launch of the `[mcp_servers.<name>]` server at another package version.
+ * Other tables are kept as-is.
+ */
+function setCodexServerPackageVersion(text: string | undefined, name: string, version: string): string {
+  let table: string | undefined;
+  let replaced = false;
+
+  const updated = (text || '').split('\n').map(line => {
+    const header = tomlTableName(line);
+    if (header !== undefined) {
+      table = header;
+    } else if (table === `mcp_servers.${name}` && findMcpPackageVersion(line) !== undefined) {
+      replaced = true;
+      return withMcpPackageVersion(line, version);
+    }
+    return line;
+  });
+
+  if (!replaced) {
+    throw new Error(`the "${name}" server doesn't launch ${MCP_PACKAGE}`);
+  }
+  return updated.join('\n');
+}
+
+/**
+ * Return the config text with the InsForge server added (or replaced).
+ * Throws if the existing file can't be parsed.
+ */
+export function withInsForgeServer(
+  text: string | undefined,
+  format: McpConfigFormat,
+  credentials: McpCredentials,
+  options: McpServerOptions = { transport: 'stdio' }
+): string {
+  const entry = buildServerEntry(credentials, options.transport);
+  return format === 'codexToml' ? setCodexServer(text, entry) : setJsonServer(text, format, entry, options.remoteShape);
+}
+
+/**
+ * Find the InsForge server entries in a config. Throws if the config can't be parsed.
+ */
+export function findInsForgeServers(text: string | undefined, format: McpConfigFormat): McpConfigServer[] {
+  return format === 'codexToml' ? findCodexServers(text) : findJsonServers(text, format);
+}
+
+/**
+ * Return the config text with a new API key in the given server entry only, leaving
+ * the rest of the file (other servers, comments, formatting) untouched.
+ * Throws if the config can't be parsed or the entry has no API key.
+ */
+export function withServerApiKey(text: string | undefined, format: McpConfigFormat, name: string, apiKey: string): string {
+  return format === 'codexToml'
+    ? setCodexServerApiKey(text, name, apiKey)
+    : setJsonServerApiKey(text, format, name, apiKey);
+}
+
+/**
+ * Return the config text with the given server entry launching another version of
+ * the InsForge MCP package. Other entries launching it are left alone.
+ * Throws if the config can't be parsed or the entry doesn't launch the package.
+ */
+export function withServerPackageVersion(text: string | undefined, format: McpConfigFormat, name: string, version: string): string {
+  return format === 'codexToml'
+    ? setCodexServerPackageVersion(text, name, version)
+    : setJsonServerPackageVersion(text, format, name, version);
+}
+
+/**
+ * Return the config text without the given server entries
+ */
+export function withoutServers(text: string | undefined, format: McpConfigFormat, names: string[]): string {
+  if (format === 'codexToml') {
+    const kept = removeCodexTables(text, names);
+    return kept.length > 0 ? `${kept.join('\n')}\n` : '';
+  }
+  return removeJsonServers(text, format, names);
+}
+
+/**
+ * Read a config file, or undefined if it doesn't exist yet
+ */
+export async function readConfigFile(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const content = await vscode.workspace.fs.readFile(uri);
+    return Buffer.from(content).toString('utf8').replace(/^\uFEFF/, '');
+  } catch (error) {
+    if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function writeConfigFile(uri: vscode.Uri, content: string): Promise<void> {
+  await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+  await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+}
+
+/**
+ * Serves the proposed config shown on the right side of the preview diff
+ */
+export function registerMcpConfigPreviewProvider(): vscode.Disposable {
+  return vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+    provideTextDocumentContent: (uri) => previewContents.get(uri.toString()) ?? '',
+  });
+}
+
+/**
+ * Close the diff editor opened for a preview
+ */
+async function closePreview(previewUri: vscode.Uri): Promise<void> {
+  const tabs = vscode.window.tabGroups.all
+    .flatMap(group => group.tabs)
+    .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString());
+  await vscode.window.tabGroups.close(tabs);
+}
+
+/**
+ * Show the config change in a diff editor and write it if the user applies it.
+ * Returns false if the user cancelled. Throws if the config can't be read, parsed or written.
+ */
+export async function previewAndApplyMcpConfig(
+  location: McpConfigLocation,
+  newContent: (current: string | undefined) => string,
+  clientLabel: string
+): Promise<boolean> {
+  const current = await readConfigFile(location.uri);
+  const proposed = newContent(current);
+  if (proposed === current) {
+    return true;
+  }
+
+  const configPath = displayConfigPath(location.uri);
+  const stamp = Date.now().toString();
+  const originalUri = current === undefined
+    ? vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: location.uri.path, query: `original-${stamp}` })
+    : location.uri;
+  const proposedUri = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: location.uri.path, query: `proposed-${stamp}` });
+
+  previewContents.set(originalUri.toString(), '');
+  previewContents.set(proposedUri.toString(), proposed);
+
+  try {
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      originalUri,
+      proposedUri,
+      `${configPath} ↔ InsForge MCP for ${clientLabel}`,
+      { preview: true }
+    );
+
+    const selection = await vscode.window.showInformationMessage(
+      `Apply the InsForge MCP change to ${configPath}?`,
+      'Apply',
+      'Cancel'
+    );
+
+    if (selection !== 'Apply') {
+      return false;
+    }
+
+    await writeConfigFile(location.uri, proposed);
+    console.log(`[mcpConfig] Wrote ${location.uri.fsPath}`);
+    return true;
+  } finally {
+    await closePreview(proposedUri);
+    previewContents.delete(originalUri.toString());
+    previewContents.delete(proposedUri.toString());
+  }
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { createHash } from 'crypto';
+import { displayConfigPath, findInsForgeServers, McpConfigFormat, McpConfigServer, McpTransport, readConfigFile } from './mcpConfig';
+import { redact } from './redact';
+
+/**
+ * Watches the AI client config files that hold verified InsForge servers, and tells
+ * when an entry drifted from what was verified (removed, pointed at another project
+ * or key, or the file no longer parses).
+ */
+
+/**
+ * A verified InsForge server entry, as it was in the client config
+ */
+export interface McpConfigSnapshot {
+  /** Config file URI (string form) */
+  uri: string;
+  format: McpConfigFormat;
+  clientId: string;
+  clientLabel: string;
+  /** Key of the entry in the config */
+  name: string;
+  apiBaseUrl?: string;
+  /** SHA-256 of the API key, so the key itself isn't kept in extension state */
+  apiKeyHash?: string;
+  transport: McpTransport;
+}
+
+// Editors and installers often write a file several times in a row
+const CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Fingerprint of an API key for comparing entries
+ */
+export function hashApiKey(apiKey: string | undefined): string | undefined {
+  return apiKey ? createHash('sha256').update(apiKey).digest('hex') : undefined;
+}
+
+/**
+ * Snapshot of a server entry found in a client config
+ */
+export function snapshotMcpConfig(server: {
+  location: { uri: vscode.Uri; format: McpConfigFormat };
+  clientId: string;
+  clientLabel: string;
+  name: string;
+  apiBaseUrl?: string;
+  apiKey?: string;
+  transport: McpTransport;
+}): McpConfigSnapshot {
+  return {
+    uri: server.location.uri.toString(),
+    format: server.location.format,
+    clientId: server.clientId,
+    clientLabel: server.clientLabel,
+    name: server.name,
+    apiBaseUrl: server.apiBaseUrl,
+    apiKeyHash: hashApiKey(server.apiKey),
+    transport: server.transport,
+  };
+}
+
+/**
+ * Take a new snapshot of the entry after the extension rewrote its config (e.g. a rotated key).
+ * Returns undefined if the entry is gone or now serves another project.
+ */
+export async function resnapshotMcpConfig(snapshot: McpConfigSnapshot): Promise<McpConfigSnapshot | undefined> {
+  try {
+    const text = await readConfigFile(vscode.Uri.parse(snapshot.uri));
+    const server = findInsForgeServers(text, snapshot.format).find(s => s.name === snapshot.name);
+    if (!server || server.apiBaseUrl !== snapshot.apiBaseUrl) {
+      return undefined;
+    }
+    return { ...snapshot, apiKeyHash: hashApiKey(server.apiKey), transport: server.transport };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a snapshot's config file and describe how its entry differs from the snapshot.
+ * Returns undefined if the entry is unchanged.
+ */
+export async function findMcpConfigDrift(snapshot: McpConfigSnapshot): Promise<string | undefined> {
+  const uri = vscode.Uri.parse(snapshot.uri);
+  const configPath = displayConfigPath(uri);
+
+  let servers: McpConfigServer[];
+  try {
+    const text = await readConfigFile(uri);
+    if (text === undefined) {
+      return `${configPath} was deleted`;
+    }
+    servers = findInsForgeServers(text, snapshot.format);
+  } catch (error) {
+    // Parse errors can quote the text around the failure, API key included
+    return `${configPath} can't be parsed: ${redact(error instanceof Error ? error.message : String(error))}`;
+  }
+
+  const server = servers.find(s => s.name === snapshot.name);
+  if (!server) {
+    return `The InsForge entry was removed from ${configPath}`;
+  }
+  if (server.apiBaseUrl !== snapshot.apiBaseUrl) {
+    return `The InsForge entry in ${configPath} points to another project`;
+  }
+  if (hashApiKey(server.apiKey) !== snapshot.apiKeyHash) {
+    return `The InsForge entry in ${configPath} uses a different API key`;
+  }
+  return undefined;
+}
+
+/**
+ * One file-system watcher per config file. Files outside the workspace
+ * (e.g. ~/.cursor/mcp.json) are watched through a pattern based in their folder.
+ */
+export class McpConfigWatcher implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly watchers: Map<string, vscode.Disposable> = new Map();
+  private readonly pending: Map<string, NodeJS.Timeout> = new Map();
+
+  /**
+   * Watch exactly the given config files (string URIs), dropping watchers of the others
+   */
+  watch(uris: string[]): void {
+    const wanted = new Set(uris);
+
+    for (const [key, watcher] of this.watchers) {
+      if (!wanted.has(key)) {
+        watcher.dispose();
+        this.watchers.delete(key);
+      }
+    }
+
+    for (const key of wanted) {
+      if (this.watchers.has(key)) {
+        continue;
+      }
+      const uri = vscode.Uri.parse(key);
+      const fileName = uri.path.slice(uri.path.lastIndexOf('/') + 1);
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.joinPath(uri, '..'), fileName)
+      );
+      const fire = () => this.schedule(uri);
+      this.watchers.set(key, vscode.Disposable.from(
+        watcher,
+        watcher.onDidCreate(fire),
+        watcher.onDidChange(fire),
+        watcher.onDidDelete(fire)
+      ));
+    }
+  }
+
+  private schedule(uri: vscode.Uri): void {
+    const key = uri.toString();
+    clearTimeout(this.pending.get(key));
+    this.pending.set(key, setTimeout(() => {
+      this.pending.delete(key);
+      this._onDidChange.fire(uri);
+    }, CHANGE_DEBOUNCE_MS));
+  }
+
+  dispose(): void {
+    this.pending.forEach(timer => clearTimeout(timer));
+    this.pending.clear();
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers.clear();
+    this._onDidChange.dispose();
+  }
+}
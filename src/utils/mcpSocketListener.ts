@@ -1,4 +1,5 @@
 import { io, Socket } from 'socket.io-client';
+import { redact, registerSecret } from './redact';
 
 export interface McpConnectedEvent {
   tool_name: string;
@@ -34,6 +35,7 @@ export class McpSocketListener {
     this.apiKey = apiKey;
     this.apiBaseUrl = apiBaseUrl;
     this.callbacks = callbacks;
+    registerSecret(apiKey);
   }
 
   /**
@@ -67,8 +69,8 @@ export class McpSocketListener {
       });
 
       this.socket.on('connect_error', (error) => {
-        console.error(`[McpSocketListener] Connection error:`, error.message);
-        this.callbacks.onError?.(error.message);
+        console.error(`[McpSocketListener] Connection error:`, redact(error.message));
+        this.callbacks.onError?.(redact(error.message));
       });
 
       // Listen for mcp:connected events
@@ -85,8 +87,8 @@ export class McpSocketListener {
       });
 
     } catch (error) {
-      console.error('[McpSocketListener] Failed to create socket:', error);
-      this.callbacks.onError?.(error instanceof Error ? error.message : 'Unknown error');
+      console.error('[McpSocketListener] Failed to create socket:', redact(String(error)));
+      this.callbacks.onError?.(error instanceof Error ? redact(error.message) : 'Unknown error');
     }
   }
 
@@ -1,4 +1,7 @@
 import { spawn, ChildProcess } from 'child_process';
+import { redact, registerSecret } from './redact';
+import { getMcpPackageSpec } from './mcpVersion';
+import { getMcpServerUrl, MCP_API_KEY_HEADER, McpRemoteTransport, McpTransport } from './mcpConfig';
 
 export interface McpVerificationResult {
   success: boolean;
@@ -42,7 +45,7 @@ export async function testMcpConnection(
 
     try {
       // Spawn MCP process with credentials
-      mcpProcess = spawn('npx', ['@insforge/mcp'], {
+      mcpProcess = spawn('npx', ['-y', getMcpPackageSpec()], {
         env: {
           ...process.env,
           API_KEY: apiKey,
@@ -164,24 +167,244 @@ export async function testMcpConnection(
   });
 }
 
+interface JsonRpcResponse {
+  id?: number;
+  result?: { tools?: { name: string }[] };
+  error?: { message?: string };
+}
+
+const INITIALIZE_REQUEST = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: {
+      name: 'insforge-vscode',
+      version: '1.0.0'
+    }
+  }
+};
+const INITIALIZED_NOTIFICATION = { jsonrpc: '2.0', method: 'notifications/initialized' };
+const TOOLS_LIST_REQUEST = { jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} };
+
+/**
+ * Read Server-Sent Events from a response body
+ */
+async function* readSseEvents(response: Response): AsyncGenerator<{ event: string; data: string }> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+    }
+  }
+}
+
+/**
+ * Wait for the JSON-RPC response with the given id in an event stream.
+ * Reads with next() rather than for-await, which would close the stream on return.
+ */
+async function readSseResponse(events: AsyncGenerator<{ event: string; data: string }>, id: number): Promise<JsonRpcResponse> {
+  for (let next = await events.next(); !next.done; next = await events.next()) {
+    const { event, data } = next.value;
+    if (event !== 'message') {
+      continue;
+    }
+    try {
+      const message = JSON.parse(data) as JsonRpcResponse;
+      if (message.id === id) {
+        return message;
+      }
+    } catch {
+      // Not JSON-RPC, keep reading
+    }
+  }
+  throw new Error('Connection closed before the server responded');
+}
+
+async function checkResponse(response: Response): Promise<Response> {
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+/**
+ * Tool names from a tools/list response, or an error
+ */
+function toVerificationResult(response: JsonRpcResponse): McpVerificationResult {
+  if (response.error) {
+    return { success: false, error: response.error.message || 'Unknown error' };
+  }
+  const tools = response.result?.tools;
+  return Array.isArray(tools)
+    ? { success: true, tools: tools.map(tool => tool.name) }
+    : { success: false, error: 'The server did not return a tool list' };
+}
+
+/**
+ * Streamable HTTP: every message is a POST; responses come back as JSON or as an event stream
+ */
+async function testStreamableHttpConnection(url: string, apiKey: string, signal: AbortSignal): Promise<McpVerificationResult> {
+  let sessionId: string | undefined;
+
+  const post = async (message: { jsonrpc: string; id?: number }): Promise<JsonRpcResponse | undefined> => {
+    const response = await checkResponse(await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        [MCP_API_KEY_HEADER]: apiKey,
+        ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+      },
+      body: JSON.stringify(message),
+      signal,
+    }));
+    sessionId = response.headers.get('mcp-session-id') ?? sessionId;
+
+    if (message.id === undefined) {
+      return undefined;
+    }
+    return response.headers.get('content-type')?.includes('text/event-stream')
+      ? readSseResponse(readSseEvents(response), message.id)
+      : await response.json() as JsonRpcResponse;
+  };
+
+  const initialized = await post(INITIALIZE_REQUEST);
+  if (initialized?.error) {
+    return { success: false, error: initialized.error.message || 'Initialization failed' };
+  }
+  await post(INITIALIZED_NOTIFICATION);
+  return toVerificationResult((await post(TOOLS_LIST_REQUEST))!);
+}
+
+/**
+ * SSE: a GET opens the event stream, which first names the endpoint to POST messages to;
+ * responses arrive on the stream
+ */
+async function testSseConnection(url: string, apiKey: string, signal: AbortSignal): Promise<McpVerificationResult> {
+  const stream = await checkResponse(await fetch(url, {
+    headers: { 'Accept': 'text/event-stream', [MCP_API_KEY_HEADER]: apiKey },
+    signal,
+  }));
+  const events = readSseEvents(stream);
+
+  let endpoint: string | undefined;
+  while (!endpoint) {
+    const next = await events.next();
+    if (next.done) {
+      break;
+    }
+    if (next.value.event === 'endpoint') {
+      endpoint = new URL(next.value.data, url).toString();
+    }
+  }
+  if (!endpoint) {
+    return { success: false, error: 'The server did not announce a message endpoint' };
+  }
+
+  const post = async (message: object) => {
+    await checkResponse(await fetch(endpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [MCP_API_KEY_HEADER]: apiKey },
+      body: JSON.stringify(message),
+      signal,
+    }));
+  };
+
+  await post(INITIALIZE_REQUEST);
+  const initialized = await readSseResponse(events, INITIALIZE_REQUEST.id);
+  if (initialized.error) {
+    return { success: false, error: initialized.error.message || 'Initialization failed' };
+  }
+  await post(INITIALIZED_NOTIFICATION);
+  await post(TOOLS_LIST_REQUEST);
+  return toVerificationResult(await readSseResponse(events, TOOLS_LIST_REQUEST.id));
+}
+
+/**
+ * Test the project's hosted MCP endpoint over Streamable HTTP or SSE with the same
+ * initialize + tools/list exchange the stdio check uses.
+ */
+export async function testRemoteMcpConnection(
+  apiKey: string,
+  apiBaseUrl: string,
+  transport: McpRemoteTransport,
+  timeoutMs: number = 10000
+): Promise<McpVerificationResult> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  const url = getMcpServerUrl(apiBaseUrl, transport);
+
+  try {
+    return transport === 'sse'
+      ? await testSseConnection(url, apiKey, controller.signal)
+      : await testStreamableHttpConnection(url, apiKey, controller.signal);
+  } catch (err) {
+    if (controller.signal.aborted) {
+      return { success: false, error: 'Connection timeout' };
+    }
+    // fetch() reports network failures as "fetch failed" with the reason in `cause`
+    const cause = err instanceof Error && err.cause instanceof Error ? `: ${err.cause.message}` : '';
+    return { success: false, error: err instanceof Error ? `${err.message}${cause}` : 'Unknown error' };
+  } finally {
+    clearTimeout(timeout);
+    // Also closes the SSE stream
+    controller.abort();
+  }
+}
+
 /**
- * Verify MCP installation.
+ * Verify MCP installation over the transport the clients were configured with.
  */
 export async function verifyMcpInstallation(
   apiKey: string,
   apiBaseUrl: string,
   callbacks: McpVerificationCallbacks,
+  transport: McpTransport = 'stdio',
 ): Promise<McpVerificationResult> {
   callbacks.onVerifying?.();
+  registerSecret(apiKey);
 
-  const result = await testMcpConnection(apiKey, apiBaseUrl);
+  const result = transport === 'stdio'
+    ? await testMcpConnection(apiKey, apiBaseUrl)
+    : await testRemoteMcpConnection(apiKey, apiBaseUrl, transport);
 
   if (result.success && result.tools) {
     callbacks.onVerified?.(result.tools);
     return result;
   }
 
-  const error = result.error || 'No response';
+  // The server's stderr may echo its environment
+  const error = redact(result.error || 'No response');
   callbacks.onFailed?.(error);
   return { success: false, error };
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+
+/**
+ * Version of the InsForge MCP server that installs and verification run,
+ * and lookups against the npm registry to tell when installed clients are behind.
+ */
+
+export const MCP_PACKAGE = '@insforge/mcp';
+
+const DEFAULT_MCP_VERSION = 'latest';
+const PACKAGE_URL = `https://registry.npmjs.org/${MCP_PACKAGE.replace('/', '%2F')}`;
+const REGISTRY_TIMEOUT_MS = 10000;
+
+// `@insforge/mcp` with an optional `@<version or tag>`
+const PACKAGE_SPEC = /@insforge\/mcp(?:@([\w.+-]+))?(?![\w-])/g;
+
+/**
+ * The pinned version or channel (`latest`, `beta`, or an exact version) from insforge.mcpServerVersion
+ */
+export function getMcpServerVersion(): string {
+  const version = vscode.workspace.getConfiguration('insforge').get<string>('mcpServerVersion', DEFAULT_MCP_VERSION);
+  return version.trim().replace(/^v(?=\d)/, '') || DEFAULT_MCP_VERSION;
+}
+
+/**
+ * Package spec for npx, e.g. `@insforge/mcp@latest` or `@insforge/mcp@1.2.3`
+ */
+export function getMcpPackageSpec(version = getMcpServerVersion()): string {
+  return `${MCP_PACKAGE}@${version}`;
+}
+
+/**
+ * Version or tag of the InsForge MCP package in a server's launch command.
+ * Returns '' when the package is launched without one (npx then uses whatever it has cached).
+ */
+export function findMcpPackageVersion(launch: string): string | undefined {
+  const match = [...launch.matchAll(PACKAGE_SPEC)][0];
+  return match ? match[1] || '' : undefined;
+}
+
+/**
+ * Point the InsForge MCP package in a launch command or argument at the given version
+ */
+export function withMcpPackageVersion(launch: string, version = getMcpServerVersion()): string {
+  return launch.replace(PACKAGE_SPEC, getMcpPackageSpec(version));
+}
+
+/**
+ * Published releases of the package
+ */
+export interface McpReleases {
+  /** e.g. `{ latest: '1.2.3', beta: '1.3.0-beta.1' }` */
+  distTags: Record<string, string>;
+  versions: string[];
+}
+
+/**
+ * Fetch the package's dist-tags and published versions
+ */
+export async function fetchMcpReleases(): Promise<McpReleases> {
+  // The abbreviated document lists the versions without their full manifests
+  const response = await fetch(PACKAGE_URL, {
+    headers: { Accept: 'application/vnd.npm.install-v1+json' },
+    signal: AbortSignal.timeout(REGISTRY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`npm registry returned ${response.status} ${response.statusText}`);
+  }
+  const document = await response.json() as { 'dist-tags'?: Record<string, string>; versions?: Record<string, unknown> };
+  return { distTags: document['dist-tags'] || {}, versions: Object.keys(document.versions || {}) };
+}
+
+/**
+ * Published version a version or tag stands for, or undefined if there is no such release.
+ * Unversioned launches count as following `latest`.
+ */
+export function resolveMcpVersion(version: string, releases: McpReleases): string | undefined {
+  if (/^\d/.test(version)) {
+    return releases.versions.includes(version) ? version : undefined;
+  }
+  return releases.distTags[version || DEFAULT_MCP_VERSION];
+}
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+/**
+ * Path of the optional, checked-in file that binds a workspace folder to an InsForge project
+ */
+export const PROJECT_BINDING_FILE = '.insforge/project.json';
+
+/**
+ * Contents of .insforge/project.json
+ */
+export interface ProjectBinding {
+  organizationId: string;
+  projectId: string;
+}
+
+function isProjectBinding(value: unknown): value is ProjectBinding {
+  const binding = value as ProjectBinding;
+  return typeof binding?.organizationId === 'string' && typeof binding?.projectId === 'string';
+}
+
+/**
+ * Read the project binding of a workspace folder. Returns undefined if the file
+ * doesn't exist or doesn't name an organization and project.
+ */
+export async function readProjectBinding(folder: vscode.Uri): Promise<ProjectBinding | undefined> {
+  const fileUri = vscode.Uri.joinPath(folder, PROJECT_BINDING_FILE);
+
+  let content: Uint8Array;
+  try {
+    content = await vscode.workspace.fs.readFile(fileUri);
+  } catch {
+    return undefined; // No binding file
+  }
+
+  try {
+    const parsed = JSON.parse(Buffer.from(content).toString('utf8'));
+    if (isProjectBinding(parsed)) {
+      return { organizationId: parsed.organizationId, projectId: parsed.projectId };
+    }
+    console.warn(`[projectBinding] ${fileUri.fsPath} must contain "organizationId" and "projectId"`);
+  } catch (error) {
+    console.warn(`[projectBinding] Invalid JSON in ${fileUri.fsPath}:`, error);
+  }
+  return undefined;
+}
+
+/**
+ * Write .insforge/project.json so the binding can be checked in and shared with the team
+ */
+export async function writeProjectBinding(folder: vscode.Uri, binding: ProjectBinding): Promise<vscode.Uri> {
+  const fileUri = vscode.Uri.joinPath(folder, PROJECT_BINDING_FILE);
+  const content = JSON.stringify(binding, null, 2) + '\n';
+  await vscode.workspace.fs.writeFile(fileUri, Buffer.from(content, 'utf8'));
+  return fileUri;
+}
+
+/**
+ * A workspace folder and the project its .insforge/project.json binds it to, if any
+ */
+export interface FolderBinding {
+  folder: vscode.WorkspaceFolder;
+  binding?: ProjectBinding;
+}
+
+/**
+ * Read the project binding of every open workspace folder (in workspace order)
+ */
+export async function readWorkspaceBindings(): Promise<FolderBinding[]> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  return Promise.all(folders.map(async folder => ({ folder, binding: await readProjectBinding(folder.uri) })));
+}
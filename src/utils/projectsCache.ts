@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { Organization, Project } from '../api/insforgeClient';
+
+/**
+ * Organizations and projects of one account, as last fetched from the API
+ */
+export interface CachedProjects {
+  fetchedAt: number;
+  /** `error` marks an org whose projects could not be loaded and weren't cached before */
+  orgs: Array<{ org: Organization; projects: Project[]; error?: string }>;
+}
+
+const CACHE_DIR = 'projects-cache';
+
+/**
+ * The fields the projects view renders. Anything else the API returns (notably
+ * access_api_key, which belongs in SecretStorage) stays out of the plaintext cache.
+ */
+function toCachedProject(project: Project): Project {
+  return {
+    id: project.id,
+    name: project.name,
+    region: project.region,
+    appkey: project.appkey,
+    status: project.status,
+    storage_disk_size: project.storage_disk_size,
+  };
+}
+
+/**
+ * On-disk cache of organizations and projects per account (in the extension's
+ * global storage), so the sidebar can render immediately and revalidate in the background.
+ */
+export class ProjectsCache {
+  private readonly _dir: vscode.Uri;
+
+  constructor(storageUri: vscode.Uri) {
+    this._dir = vscode.Uri.joinPath(storageUri, CACHE_DIR);
+  }
+
+  private fileFor(accountKey: string): vscode.Uri {
+    // Account keys contain ':' which isn't valid in Windows file names
+    const fileName = accountKey.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return vscode.Uri.joinPath(this._dir, `${fileName}.json`);
+  }
+
+  async read(accountKey: string): Promise<CachedProjects | undefined> {
+    try {
+      const content = await vscode.workspace.fs.readFile(this.fileFor(accountKey));
+      return JSON.parse(Buffer.from(content).toString('utf8')) as CachedProjects;
+    } catch {
+      return undefined; // Missing or corrupt cache, treat as empty
+    }
+  }
+
+  async write(accountKey: string, data: CachedProjects): Promise<void> {
+    const cached: CachedProjects = {
+      fetchedAt: data.fetchedAt,
+      orgs: data.orgs.map(({ org, projects, error }) => ({
+        org,
+        projects: projects.map(toCachedProject),
+        ...(error ? { error } : {}),
+      })),
+    };
+    try {
+      await vscode.workspace.fs.createDirectory(this._dir);
+      await vscode.workspace.fs.writeFile(this.fileFor(accountKey), Buffer.from(JSON.stringify(cached), 'utf8'));
+    } catch (error) {
+      console.warn('[ProjectsCache] Failed to write cache:', error);
+    }
+  }
+
+  /**
+   * Delete cache files of accounts that are no longer signed in
+   */
+  async prune(accountKeys: string[]): Promise<void> {
+    const keep = new Set(accountKeys.map(key => this.fileFor(key).path));
+    try {
+      const entries = await vscode.workspace.fs.readDirectory(this._dir);
+      for (const [name] of entries) {
+        const uri = vscode.Uri.joinPath(this._dir, name);
+        if (!keep.has(uri.path)) {
+          await vscode.workspace.fs.delete(uri);
+        }
+      }
+    } catch {
+      // No cache directory yet
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await vscode.workspace.fs.delete(this._dir, { recursive: true });
+    } catch {
+      // Nothing to clear
+    }
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Masks project API keys in text the extension shows or logs (terminal output,
+ * notifications, console). Keys are registered when they are fetched from the API
+ * or read from a client config; values assigned to API_KEY are masked even if unknown.
+ */
+
+const secrets: Set<string> = new Set();
+
+// Shorter values would mask ordinary words
+const MIN_SECRET_LENGTH = 8;
+
+// API_KEY=value, API_KEY: value, "API_KEY": "value", API_KEY = 'value', and the x-api-key header
+const API_KEY_ASSIGNMENT = /((?:API_KEY|x-api-key)["']?\s*[=:]\s*["']?)([^\s"',}]+)/gi;
+
+/**
+ * Remember a secret so it is masked wherever it shows up later
+ */
+export function registerSecret(value: string | undefined): void {
+  if (value && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+}
+
+/**
+ * Keep the first characters (enough to tell keys apart) and hide the rest
+ */
+export function maskSecret(value: string): string {
+  return `${value.slice(0, 4)}********`;
+}
+
+/**
+ * Replace every known secret and API_KEY value in the text with its masked form
+ */
+export function redact(text: string): string {
+  let result = text;
+  for (const secret of secrets) {
+    result = result.split(secret).join(maskSecret(secret));
+  }
+
+  return result.replace(API_KEY_ASSIGNMENT, (match, prefix: string, value: string) =>
+    value.endsWith('********') ? match : `${prefix}${maskSecret(value)}`
+  );
+}
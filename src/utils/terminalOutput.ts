@@ -1,3 +1,5 @@
+import { getMcpClient } from './mcpClients';
+
 /**
  * Terminal output utilities for MCP installation
  * Handles formatting and building terminal messages for installation results
@@ -43,25 +45,57 @@ export interface InstallerResult {
 }
 
 /**
- * Build terminal output message based on installer result
+ * Installer result for one AI client
+ */
+export interface ClientInstallResult {
+  clientId: string;
+  clientLabel: string;
+  result: InstallerResult;
+  /** The user dismissed the config preview or cancelled before this client was installed */
+  skipped?: boolean;
+}
+
+/**
+ * Describe why an install failed
+ */
+function describeFailure(result: InstallerResult): string {
+  return result.error || `Installer exited with code: ${result.exitCode}`;
+}
+
+/**
+ * Build terminal output message based on the installer result of each client.
+ * Pass `includeOutput: false` when the installer output was already shown (streamed).
  */
 export function buildTerminalOutput(
-  result: InstallerResult,
-  clientLabel: string,
-  clientId: string
+  results: ClientInstallResult[],
+  options: { includeOutput?: boolean } = {}
 ): string {
+  const includeOutput = options.includeOutput ?? true;
   const lines: string[] = [];
+  const succeeded = results.filter(entry => entry.result.success);
+  const failed = results.filter(entry => !entry.result.success && !entry.skipped);
 
   // Always show what we were trying to do
   lines.push(formatHeader('InsForge MCP Installer'));
-  lines.push(`Target: ${clientLabel} (${clientId})`);
+  lines.push(`Targets: ${results.map(entry => `${entry.clientLabel} (${entry.clientId})`).join(', ')}`);
+  lines.push('');
+
+  // Per-client summary
+  for (const { clientLabel, result, skipped } of results) {
+    if (skipped) {
+      lines.push(`- ${clientLabel} - Skipped`);
+      continue;
+    }
+    const detail = result.success ? stripAnsi(result.stdout.trim()).split('\n').pop() : describeFailure(result);
+    lines.push(`${result.success ? '✓' : '✗'} ${clientLabel}${detail ? ` - ${detail}` : ''}`);
+  }
   lines.push('');
 
-  if (result.success) {
+  if (succeeded.length > 0) {
     // Success case - show logo and success message
-    lines.push(formatHeader('Installation Complete!'));
+    lines.push(formatHeader(failed.length > 0 ? 'Installation Partially Complete' : 'Installation Complete!'));
     lines.push(INSFORGE_LOGO);
-    lines.push('✓ InsForge MCP is now configured!');
+    lines.push(`✓ InsForge MCP is now configured for ${succeeded.map(entry => entry.clientLabel).join(', ')}!`);
     lines.push('');
     lines.push('Next steps:');
     lines.push('  1. Restart your coding agent to load InsForge');
@@ -78,31 +112,30 @@ export function buildTerminalOutput(
     lines.push('  💬 Discord: https://discord.com/invite/MPxwj5xVvW');
     lines.push('  ⭐ GitHub: https://github.com/insforge/insforge');
     lines.push('');
-  } else {
-    // Failure case - show error details
-    lines.push(formatHeader('Installation Failed'));
-    lines.push('');
+  }
 
-    // Show error message
-    if (result.error) {
-      lines.push(`✗ Error: ${result.error}`);
-    } else {
-      lines.push(`✗ Installer exited with code: ${result.exitCode}`);
-    }
+  if (failed.length > 0) {
+    // Failure case - show error details per client
+    lines.push(formatHeader('Installation Failed'));
     lines.push('');
 
-    // Show captured stdout if any (may contain useful info)
-    if (result.stdout && result.stdout.trim()) {
-      lines.push('--- Installer Output ---');
-      lines.push(stripAnsi(result.stdout.trim()));
+    for (const { clientLabel, result } of failed) {
+      lines.push(`✗ ${clientLabel}: ${describeFailure(result)}`);
       lines.push('');
-    }
 
-    // Show stderr if any
-    if (result.stderr && result.stderr.trim()) {
-      lines.push('--- Error Output ---');
-      lines.push(stripAnsi(result.stderr.trim()));
-      lines.push('');
+      // Show captured stdout if any (may contain useful info)
+      if (includeOutput && result.stdout && result.stdout.trim()) {
+        lines.push('--- Installer Output ---');
+        lines.push(stripAnsi(result.stdout.trim()));
+        lines.push('');
+      }
+
+      // Show stderr if any
+      if (includeOutput && result.stderr && result.stderr.trim()) {
+        lines.push('--- Error Output ---');
+        lines.push(stripAnsi(result.stderr.trim()));
+        lines.push('');
+      }
     }
 
     lines.push(LINE);
@@ -110,7 +143,14 @@ export function buildTerminalOutput(
     lines.push('Troubleshooting:');
     lines.push('  • Make sure you have Node.js and npm installed');
     lines.push('  • Check your network connection');
-    lines.push('  • Try running manually: npx @insforge/install --client ' + clientId);
+    // Only clients the npx installer knows can be installed with it by hand
+    const npxClientIds = failed.map(({ clientId }) => clientId).filter(clientId => getMcpClient(clientId)?.npxInstaller);
+    if (npxClientIds.length > 0) {
+      lines.push('  • Try running manually:');
+      for (const clientId of npxClientIds) {
+        lines.push(`      npx @insforge/install --client ${clientId}`);
+      }
+    }
     lines.push('');
     lines.push('Need help?');
     lines.push('  💬 Discord: https://discord.com/invite/MPxwj5xVvW');
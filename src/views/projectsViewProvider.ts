@@ -1,11 +1,31 @@
 import * as vscode from 'vscode';
-import { AuthProvider, Organization, Project } from '../auth/authProvider';
-import { McpStatus } from '../commands/installMcp';
-import { startMcpSocketListener, stopAllMcpSocketListeners } from '../utils/mcpSocketListener';
+import { AuthProvider } from '../auth/authProvider';
+import { Organization, Project } from '../api/insforgeClient';
+import { describeApiError, UnauthorizedError } from '../api/errors';
+import { findInstalledMcpServers, InstalledMcpServer, McpStatus } from '../commands/installMcp';
+import { startMcpSocketListener, stopAllMcpSocketListeners, stopMcpSocketListener } from '../utils/mcpSocketListener';
 import { loadSvg } from '../utils/svgLoader';
+import { ProjectsCache, CachedProjects } from '../utils/projectsCache';
+import { getDashboardUrl, getProjectApiBaseUrl } from '../utils/endpoints';
+import { verifyMcpInstallation } from '../utils/mcpVerifier';
+import { redact } from '../utils/redact';
+import {
+  findMcpConfigDrift,
+  hashApiKey,
+  McpConfigSnapshot,
+  McpConfigWatcher,
+  resnapshotMcpConfig,
+  snapshotMcpConfig,
+} from '../utils/mcpConfigWatcher';
+import { FolderBinding, PROJECT_BINDING_FILE, readWorkspaceBindings } from '../utils/projectBinding';
 
 const MCP_STATUS_KEY = 'insforge.mcpStatus';
 const MCP_REAL_CONNECTED_KEY = 'insforge.mcpRealConnected';
+// Verification results of the project-local configs in each workspace folder (workspaceState, keyed by fsPath)
+const FOLDER_MCP_STATUS_KEY = 'insforge.folderMcpStatus';
+
+// Cached projects younger than this are shown without revalidating
+const PROJECTS_CACHE_FRESH_MS = 60 * 1000;
 
 interface McpProjectStatus {
   projectId: string;
@@ -13,6 +33,22 @@ interface McpProjectStatus {
   tools?: string[];
   error?: string;
   lastUpdated: number;
+  /** The verified server entries, watched for drift */
+  configs?: McpConfigSnapshot[];
+}
+
+interface McpFolderStatus {
+  status: McpStatus;
+  tools?: string[];
+  error?: string;
+  lastUpdated: number;
+}
+
+interface OrgWithProjects {
+  org: Organization;
+  projects: Project[];
+  /** Set when the org's projects could not be loaded */
+  error?: string;
 }
 
 export class ProjectsViewProvider implements vscode.WebviewViewProvider {
@@ -21,13 +57,33 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
   private _context?: vscode.ExtensionContext;
   private _disposables: vscode.Disposable[] = [];
+  private _cache?: ProjectsCache;
+  private _revalidating?: Promise<void>;
+  private _backgroundRefreshTimer?: NodeJS.Timeout;
+  // InsForge servers found in AI client configs (see scanMcpInstallations)
+  private _installedMcpServers: InstalledMcpServer[] = [];
+  // Project each workspace folder is bound to (see scanMcpInstallations)
+  private _folderBindings: FolderBinding[] = [];
+  // Config files of verified projects, watched for drift
+  private _configWatcher?: McpConfigWatcher;
 
   constructor(
     private readonly _extensionUri: vscode.Uri,
     private readonly _authProvider: AuthProvider
   ) {
-    // Refresh when auth state changes
-    this._disposables.push(_authProvider.onDidChangeAuth(() => this.refresh()));
+    // Refresh when auth state changes, and drop cached projects of signed-out accounts.
+    // MCP configs are rescanned too, since badges depend on the account's projects.
+    this._disposables.push(_authProvider.onDidChangeAuth(() => {
+      this._cache?.prune(this._authProvider.getAllAccounts().map(a => a.key));
+      this.refresh();
+      this.scanMcpInstallations();
+    }));
+
+    // Refresh when the selected project changes (to highlight it), rescanning MCP configs
+    this._disposables.push(_authProvider.onDidChangeProject(() => {
+      this.refresh();
+      this.scanMcpInstallations();
+    }));
 
     // Refresh when theme changes (to update logo)
     this._disposables.push(vscode.window.onDidChangeActiveColorTheme(() => this.refresh()));
@@ -38,7 +94,58 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
    */
   public setContext(context: vscode.ExtensionContext): void {
     this._context = context;
+    this._cache = new ProjectsCache(context.globalStorageUri);
     context.subscriptions.push(...this._disposables);
+
+    // Pick up MCP installs made by hand, by other tools or on other machines
+    this.scanMcpInstallations();
+
+    // Folders and their project bindings come and go in multi-root workspaces
+    const bindingWatcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_BINDING_FILE}`);
+    context.subscriptions.push(
+      bindingWatcher,
+      bindingWatcher.onDidCreate(() => this.scanMcpInstallations()),
+      bindingWatcher.onDidChange(() => this.scanMcpInstallations()),
+      bindingWatcher.onDidDelete(() => this.scanMcpInstallations()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.scanMcpInstallations())
+    );
+
+    // Flag verified installs whose config was changed by something else, including while VS Code was closed
+    this._configWatcher = new McpConfigWatcher();
+    context.subscriptions.push(
+      this._configWatcher,
+      this._configWatcher.onDidChange((uri) => this.checkMcpConfigDrift(uri))
+    );
+    const watched = this.syncConfigWatchers();
+    watched.forEach(uri => this.checkMcpConfigDrift(vscode.Uri.parse(uri)));
+
+    // Periodically revalidate projects in the background
+    this.scheduleBackgroundRefresh();
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('insforge.projectsRefreshInterval')) {
+          this.scheduleBackgroundRefresh();
+        }
+      }),
+      { dispose: () => clearInterval(this._backgroundRefreshTimer) }
+    );
+  }
+
+  /**
+   * (Re)start the background refresh timer from insforge.projectsRefreshInterval (seconds, 0 disables)
+   */
+  private scheduleBackgroundRefresh(): void {
+    clearInterval(this._backgroundRefreshTimer);
+    this._backgroundRefreshTimer = undefined;
+
+    const intervalSec = vscode.workspace.getConfiguration('insforge').get<number>('projectsRefreshInterval', 300);
+    if (intervalSec > 0) {
+      this._backgroundRefreshTimer = setInterval(() => {
+        if (this._view?.visible) {
+          this.refresh(true);
+        }
+      }, intervalSec * 1000);
+    }
   }
 
   /**
@@ -69,7 +176,13 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
   /**
    * Update MCP status for a project
    */
-  private async updateMcpStatus(projectId: string, status: McpStatus, tools?: string[], error?: string): Promise<void> {
+  private async updateMcpStatus(
+    projectId: string,
+    status: McpStatus,
+    tools?: string[],
+    error?: string,
+    configs?: McpConfigSnapshot[]
+  ): Promise<void> {
     if (!this._context) return;
 
     const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
@@ -79,23 +192,211 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       status,
       tools,
       error,
-      lastUpdated: Date.now()
+      lastUpdated: Date.now(),
+      configs
     };
 
     await this._context.globalState.update(MCP_STATUS_KEY, statuses);
+    this.syncConfigWatchers();
     this.refresh();
   }
 
   /**
-   * Clear other verified statuses for a project
+   * Watch the config files of verified (and drifted) projects. Returns the watched file URIs.
+   */
+  private syncConfigWatchers(): string[] {
+    const uris = [...this.getMcpStatuses().values()]
+      .filter(status => status.status === 'verified' || status.status === 'drifted')
+      .flatMap(status => status.configs || [])
+      .map(config => config.uri);
+    const unique = [...new Set(uris)];
+    this._configWatcher?.watch(unique);
+    return unique;
+  }
+
+  /**
+   * Compare a changed config file with the verified snapshots of the projects it holds.
+   * Projects whose entries changed are marked 'drifted', and go back to 'verified'
+   * when the entries match again. The snapshots live in globalState, so changes the
+   * extension makes in any window (see followApiKeyRotation, forgetMcpConfigs) aren't drift.
+   */
+  private async checkMcpConfigDrift(uri: vscode.Uri): Promise<void> {
+    if (!this._context) return;
+
+    const key = uri.toString();
+    const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
+    const newlyDrifted: McpProjectStatus[] = [];
+    let changed = false;
+
+    for (const status of Object.values(statuses)) {
+      if ((status.status !== 'verified' && status.status !== 'drifted') || !status.configs?.some(c => c.uri === key)) {
+        continue;
+      }
+
+      if (await this.followApiKeyRotation(status)) {
+        changed = true;
+      }
+
+      const reasons = (await Promise.all(status.configs.map(findMcpConfigDrift)))
+        .filter((reason): reason is string => !!reason);
+      if (reasons.length > 0) {
+        if (status.status !== 'drifted') {
+          newlyDrifted.push(status);
+        }
+        status.status = 'drifted';
+        status.error = reasons.join('; ');
+      } else if (status.status === 'drifted') {
+        // Changed back by hand
+        status.status = 'verified';
+        status.error = undefined;
+      } else {
+        continue;
+      }
+      status.lastUpdated = Date.now();
+      changed = true;
+    }
+
+    if (!changed) return;
+    await this._context.globalState.update(MCP_STATUS_KEY, statuses);
+    this.syncConfigWatchers();
+    this.refresh();
+
+    const projects = await this._getCachedProjects();
+    for (const status of newlyDrifted) {
+      const project = projects.find(p => p.id === status.projectId);
+      const reason = redact(status.error || '');
+      console.warn(`[ProjectsViewProvider] MCP config drifted for project ${status.projectId}: ${reason}`);
+      vscode.window.showWarningMessage(
+        `InsForge MCP${project ? ` for ${project.name}` : ''} changed: ${reason}`,
+        'Repair'
+      ).then(selection => {
+        if (selection === 'Repair') {
+          vscode.commands.executeCommand('insforge.repairMcp', project);
+        }
+      });
+    }
+  }
+
+  /**
+   * Take the new API key of entries whose key changed to the project's current one,
+   * i.e. rotated in this or another window. Returns true if a snapshot was updated.
+   */
+  private async followApiKeyRotation(status: McpProjectStatus): Promise<boolean> {
+    const configs = status.configs || [];
+    const current = await Promise.all(configs.map(resnapshotMcpConfig));
+    if (!current.some((snapshot, index) => snapshot && snapshot.apiKeyHash !== configs[index].apiKeyHash)) {
+      return false;
+    }
+
+    let apiKeyHash: string | undefined;
+    try {
+      apiKeyHash = hashApiKey(await this._authProvider.getProjectApiKey(status.projectId));
+    } catch (error) {
+      console.warn(`[ProjectsViewProvider] Could not fetch the API key of project ${status.projectId}:`, describeApiError(error));
+      return false;
+    }
+
+    let changed = false;
+    status.configs = configs.map((snapshot, index) => {
+      const entry = current[index];
+      if (entry && entry.apiKeyHash !== snapshot.apiKeyHash && entry.apiKeyHash === apiKeyHash) {
+        changed = true;
+        return entry;
+      }
+      return snapshot;
+    });
+    return changed;
+  }
+
+  /**
+   * The project's verified config entries that no longer match what was verified
+   */
+  public async getDriftedMcpConfigs(projectId: string): Promise<McpConfigSnapshot[]> {
+    const status = this.getMcpStatuses().get(projectId);
+    if (!status?.configs) return [];
+
+    await this.followApiKeyRotation(status);
+    const drift = await Promise.all(status.configs.map(findMcpConfigDrift));
+    return status.configs.filter((_, index) => drift[index]);
+  }
+
+  /**
+   * Stop watching entries the extension is about to remove, so no window takes
+   * the removal for drift
+   */
+  public async forgetMcpConfigs(servers: InstalledMcpServer[]): Promise<void> {
+    if (!this._context) return;
+
+    const removed = (snapshot: McpConfigSnapshot) =>
+      servers.some(server => server.location.uri.toString() === snapshot.uri && server.name === snapshot.name);
+    const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
+    for (const status of Object.values(statuses)) {
+      status.configs = status.configs?.filter(snapshot => !removed(snapshot));
+    }
+
+    await this._context.globalState.update(MCP_STATUS_KEY, statuses);
+    this.syncConfigWatchers();
+  }
+
+  /**
+   * Snapshot the project's InsForge entries in the client configs (rescanned, since they were just written).
+   * Returns undefined if the project isn't loaded yet; see snapshotPendingMcpConfigs.
+   */
+  private async snapshotMcpConfigs(projectId: string): Promise<McpConfigSnapshot[] | undefined> {
+    if (!this._context) return undefined;
+    const project = (await this._getCachedProjects()).find(p => p.id === projectId);
+    if (!project) return undefined;
+
+    try {
+      this._installedMcpServers = await findInstalledMcpServers(this._context.globalStorageUri);
+    } catch (error) {
+      console.warn('[ProjectsViewProvider] Failed to scan MCP client configs:', error);
+    }
+    const apiBaseUrl = getProjectApiBaseUrl(project);
+    return this._installedMcpServers
+      .filter(server => server.apiBaseUrl === apiBaseUrl)
+      .map(server => snapshotMcpConfig(server));
+  }
+
+  /**
+   * Snapshot the entries of verified projects that were verified before their project
+   * was loaded (e.g. right after startup)
+   */
+  private async snapshotPendingMcpConfigs(): Promise<void> {
+    if (!this._context) return;
+
+    const pending = [...this.getMcpStatuses().values()].filter(status => status.status === 'verified' && !status.configs);
+    let changed = false;
+    for (const status of pending) {
+      const configs = await this.snapshotMcpConfigs(status.projectId);
+      if (!configs) continue;
+
+      // Re-read: the status may have changed while scanning
+      const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
+      const latest = statuses[status.projectId];
+      if (latest?.status !== 'verified' || latest.configs) continue;
+      statuses[status.projectId] = { ...latest, configs };
+      await this._context.globalState.update(MCP_STATUS_KEY, statuses);
+      changed = true;
+    }
+
+    if (changed) {
+      this.syncConfigWatchers();
+    }
+  }
+
+  /**
+   * Clear other verified statuses for a project. Projects bound to another
+   * workspace folder keep theirs, since each folder has its own MCP server.
    */
   private async clearOtherVerifiedStatuses(currentProjectId: string): Promise<void> {
     if (!this._context) return;
 
     const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
+    const boundProjectIds = new Set(this._folderBindings.map(entry => entry.binding?.projectId));
 
     for (const [id, status] of Object.entries(statuses)) {
-      if (id !== currentProjectId && status.status === 'verified') {
+      if (id !== currentProjectId && !boundProjectIds.has(id) && status.status === 'verified') {
         statuses[id] = { ...status, status: 'none', tools: undefined };
       }
     }
@@ -115,7 +416,7 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
    */
   public async markMcpVerified(projectId: string, tools: string[]): Promise<void> {
     await this.clearOtherVerifiedStatuses(projectId);
-    await this.updateMcpStatus(projectId, 'verified', tools);
+    await this.updateMcpStatus(projectId, 'verified', tools, undefined, await this.snapshotMcpConfigs(projectId));
   }
 
   /**
@@ -125,6 +426,80 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     await this.updateMcpStatus(projectId, 'failed', undefined, error);
   }
 
+  /**
+   * Reset the MCP status of the (cached) projects served from the given API base URLs,
+   * e.g. after their server entries were removed from every AI client
+   */
+  public async resetMcpStatusForApiBaseUrls(apiBaseUrls: string[]): Promise<void> {
+    const accountKey = this._authProvider.getActiveAccount()?.key;
+    if (!this._context || !accountKey || apiBaseUrls.length === 0) return;
+
+    const cached = await this._cache?.read(accountKey);
+    const projectIds = (cached?.orgs || [])
+      .flatMap(entry => entry.projects)
+      .filter(project => apiBaseUrls.includes(getProjectApiBaseUrl(project)))
+      .map(project => project.id);
+
+    const statuses = this._context.globalState.get<Record<string, McpProjectStatus>>(MCP_STATUS_KEY, {});
+    for (const projectId of projectIds) {
+      stopMcpSocketListener(projectId);
+      delete statuses[projectId];
+    }
+
+    await this._context.globalState.update(MCP_STATUS_KEY, statuses);
+    this.syncConfigWatchers();
+    this.refresh();
+  }
+
+  /**
+   * Scan the AI client configs for InsForge servers, and the workspace folders for their project bindings, and re-render
+   */
+  public async scanMcpInstallations(): Promise<void> {
+    if (!this._context) return;
+
+    try {
+      this._installedMcpServers = await findInstalledMcpServers(this._context.globalStorageUri);
+      this._folderBindings = await readWorkspaceBindings();
+    } catch (error) {
+      console.error('[ProjectsViewProvider] Failed to scan MCP client configs:', error);
+      return;
+    }
+    this.refresh();
+  }
+
+  /**
+   * Labels of the AI clients whose config has an InsForge server for this project (matched by API_BASE_URL)
+   */
+  public getDetectedMcpClients(project: Project): string[] {
+    const apiBaseUrl = getProjectApiBaseUrl(project);
+    const clients = this._installedMcpServers
+      .filter(server => server.apiBaseUrl === apiBaseUrl)
+      .map(server => server.clientLabel);
+    return [...new Set(clients)];
+  }
+
+  /**
+   * Get the MCP verification status of a workspace folder's project-local configs
+   */
+  private getFolderMcpStatus(folder: vscode.WorkspaceFolder): McpFolderStatus | undefined {
+    if (!this._context) return undefined;
+    const statuses = this._context.workspaceState.get<Record<string, McpFolderStatus>>(FOLDER_MCP_STATUS_KEY, {});
+    return statuses[folder.uri.fsPath];
+  }
+
+  /**
+   * Update the MCP verification status of a workspace folder
+   */
+  private async updateFolderMcpStatus(folder: vscode.WorkspaceFolder, status: McpStatus, tools?: string[], error?: string): Promise<void> {
+    if (!this._context) return;
+
+    const statuses = this._context.workspaceState.get<Record<string, McpFolderStatus>>(FOLDER_MCP_STATUS_KEY, {});
+    statuses[folder.uri.fsPath] = { status, tools, error, lastUpdated: Date.now() };
+
+    await this._context.workspaceState.update(FOLDER_MCP_STATUS_KEY, statuses);
+    this.refresh();
+  }
+
   /**
    * Get the project ID that currently has MCP installed (for backward compatibility)
    */
@@ -165,7 +540,7 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
    * Start listening for MCP connected events via socket
    */
   public async startSocketListener(project: Project, apiKey: string): Promise<void> {
-    const apiBaseUrl = `https://${project.appkey}.${project.region}.insforge.app`;
+    const apiBaseUrl = getProjectApiBaseUrl(project);
 
     startMcpSocketListener(
       project.id,
@@ -211,6 +586,8 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     
     // Clear all MCP statuses (removes all green/yellow/red dots)
     await this._context.globalState.update(MCP_STATUS_KEY, {});
+    await this._context.workspaceState.update(FOLDER_MCP_STATUS_KEY, {});
+    this.syncConfigWatchers();
     
     // Reset guide card state (so it doesn't show "completed")
     await this._context.globalState.update(MCP_REAL_CONNECTED_KEY, false);
@@ -227,12 +604,23 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     this.stopAllSocketListeners();
     await this._context.globalState.update(MCP_STATUS_KEY, undefined);
     await this._context.globalState.update(MCP_REAL_CONNECTED_KEY, undefined);
+    await this._context.workspaceState.update(FOLDER_MCP_STATUS_KEY, undefined);
+    this.syncConfigWatchers();
+    await this._cache?.clear();
     this.refresh();
   }
 
-  public refresh(): void {
+  /**
+   * Re-render the view. Cached projects are shown right away and revalidated
+   * if stale; `force` always refetches from the API.
+   */
+  public refresh(force = false): void {
+    if (force) {
+      // Re-renders again once the scan is done
+      this.scanMcpInstallations();
+    }
     if (this._view) {
-      this._updateContent();
+      this._updateContent(force);
     }
   }
 
@@ -252,38 +640,65 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
 
     // Handle messages from webview
     webviewView.webview.onDidReceiveMessage(async (message) => {
-      switch (message.command) {
-        case 'login':
-          vscode.commands.executeCommand('insforge.login');
-          break;
-        case 'selectProject':
-          await this._handleSelectProject(message.orgId, message.projectId);
-          break;
-        case 'createProject':
-          const createUrl = `https://insforge.dev/dashboard/organization/${message.orgId}/projects?newProject=true`;
-          vscode.env.openExternal(vscode.Uri.parse(createUrl));
-          break;
-        case 'installMcp':
-          await this._handleInstallMcp(message.orgId, message.projectId);
-          break;
-        case 'openInInsforge':
-          const openUrl = `https://insforge.dev/dashboard/organization/${message.orgId}/projects`;
-          vscode.env.openExternal(vscode.Uri.parse(openUrl));
-          break;
-        case 'viewProjectDetails':
-          const projectUrl = `https://insforge.dev/dashboard/project/${message.projectId}`;
-          vscode.env.openExternal(vscode.Uri.parse(projectUrl));
-          break;
-        case 'retryMcpVerification':
-          await this._handleRetryMcpVerification(message.orgId, message.projectId);
-          break;
-        case 'refresh':
-          this.refresh();
-          break;
+      try {
+        await this._handleMessage(message);
+      } catch (error) {
+        console.error(`[ProjectsViewProvider] Failed to handle ${message.command}:`, error);
+        vscode.window.showErrorMessage(describeApiError(error));
       }
     });
   }
 
+  private async _handleMessage(message: { command: string; orgId: string; projectId: string; folder?: string }): Promise<void> {
+    switch (message.command) {
+      case 'login':
+        vscode.commands.executeCommand('insforge.login');
+        break;
+      case 'selectProject':
+        await this._handleSelectProject(message.orgId, message.projectId);
+        break;
+      case 'createProject':
+        const createUrl = getDashboardUrl(`organization/${message.orgId}/projects?newProject=true`);
+        vscode.env.openExternal(vscode.Uri.parse(createUrl));
+        break;
+      case 'installMcp':
+        await this._handleInstallMcp(message.orgId, message.projectId);
+        break;
+      case 'openInInsforge':
+        const openUrl = getDashboardUrl(`organization/${message.orgId}/projects`);
+        vscode.env.openExternal(vscode.Uri.parse(openUrl));
+        break;
+      case 'viewProjectDetails':
+        const projectUrl = getDashboardUrl(`project/${message.projectId}`);
+        vscode.env.openExternal(vscode.Uri.parse(projectUrl));
+        break;
+      case 'retryMcpVerification':
+        await this._handleRetryMcpVerification(message.orgId, message.projectId);
+        break;
+      case 'uninstallMcp':
+        await this._handleUninstallMcp(message.orgId, message.projectId);
+        break;
+      case 'rotateApiKey':
+        await this._handleRotateApiKey(message.orgId, message.projectId);
+        break;
+      case 'repairMcp':
+        await this._handleRepairMcp(message.orgId, message.projectId);
+        break;
+      case 'bindFolder':
+        vscode.commands.executeCommand('insforge.bindProjectToWorkspace', vscode.Uri.parse(message.folder!));
+        break;
+      case 'installMcpForFolder':
+        await this._handleInstallMcpForFolder(message.folder!);
+        break;
+      case 'verifyFolderMcp':
+        await this._handleVerifyFolderMcp(message.folder!);
+        break;
+      case 'refresh':
+        this.refresh(true);
+        break;
+    }
+  }
+
   private async _handleSelectProject(orgId: string, projectId: string): Promise<void> {
     const orgs = await this._authProvider.getOrganizations();
     const org = orgs.find(o => o.id === orgId);
@@ -293,8 +708,7 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     const project = projects.find(p => p.id === projectId);
     if (!project) return;
 
-    this._authProvider.setCurrentOrg(org);
-    this._authProvider.setCurrentProject(project);
+    await this._authProvider.selectProject(org, project);
 
     vscode.window.showInformationMessage(`Selected project: ${project.name}`);
   }
@@ -309,13 +723,36 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     if (!project) return;
 
     // Set current org and project
-    this._authProvider.setCurrentOrg(org);
-    this._authProvider.setCurrentProject(project);
+    await this._authProvider.selectProject(org, project);
 
     // Execute install MCP command
     vscode.commands.executeCommand('insforge.installMcp');
   }
 
+  private async _handleUninstallMcp(orgId: string, projectId: string): Promise<void> {
+    const projects = await this._authProvider.getProjects(orgId);
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    vscode.commands.executeCommand('insforge.uninstallMcp', project);
+  }
+
+  private async _handleRotateApiKey(orgId: string, projectId: string): Promise<void> {
+    const projects = await this._authProvider.getProjects(orgId);
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    vscode.commands.executeCommand('insforge.rotateProjectApiKey', project);
+  }
+
+  private async _handleRepairMcp(orgId: string, projectId: string): Promise<void> {
+    const projects = await this._authProvider.getProjects(orgId);
+    const project = projects.find(p => p.id === projectId);
+    if (!project) return;
+
+    vscode.commands.executeCommand('insforge.repairMcp', project);
+  }
+
   private async _handleRetryMcpVerification(orgId: string, projectId: string): Promise<void> {
     const projects = await this._authProvider.getProjects(orgId);
     const project = projects.find(p => p.id === projectId);
@@ -323,12 +760,11 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
 
     // Get API credentials
     const apiKey = await this._authProvider.getProjectApiKey(projectId);
-    if (!apiKey) {
-      vscode.window.showErrorMessage('Could not retrieve API key for verification');
-      return;
-    }
 
-    const apiBaseUrl = `https://${project.appkey}.${project.region}.insforge.app`;
+    const apiBaseUrl = getProjectApiBaseUrl(project);
+
+    // Verify over the transport the project's clients are configured with
+    const transport = this._installedMcpServers.find(server => server.apiBaseUrl === apiBaseUrl)?.transport;
 
     // Import and call retry verification
     const { retryVerification } = await import('../commands/installMcp');
@@ -340,31 +776,274 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
         onVerifying: (pid) => this.markMcpVerifying(pid),
         onVerified: (pid, tools) => this.markMcpVerified(pid, tools),
         onFailed: (pid, error) => this.markMcpFailed(pid, error),
-      }
+      },
+      transport
     );
   }
 
-  private async _updateContent(): Promise<void> {
+  /**
+   * Install MCP for the project a workspace folder is bound to, with project-local configs in that folder
+   */
+  private async _handleInstallMcpForFolder(folderUri: string): Promise<void> {
+    const entry = this._folderBindings.find(e => e.folder.uri.toString() === folderUri);
+    if (!entry?.binding) return;
+
+    const resolved = await this._authProvider.resolveProjectBinding(entry.binding);
+    if (!resolved) {
+      vscode.window.showWarningMessage(`The project in ${entry.folder.name}/${PROJECT_BINDING_FILE} was not found or is not accessible.`);
+      return;
+    }
+
+    vscode.commands.executeCommand('insforge.installMcp', resolved.project, entry.folder.uri);
+  }
+
+  /**
+   * Verify the InsForge server in a workspace folder's project-local configs, preferring
+   * the entry for the folder's bound project
+   */
+  private async _handleVerifyFolderMcp(folderUri: string): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(folderUri));
+    if (!folder) return;
+
+    const boundProjectId = this._folderBindings.find(e => e.folder.uri.toString() === folderUri)?.binding?.projectId;
+    const boundProject = (await this._getCachedProjects()).find(project => project.id === boundProjectId);
+    const servers = this._installedMcpServers
+      .filter(server => server.workspaceFolder === folder.uri.fsPath && server.apiKey && server.apiBaseUrl);
+    const server = servers.find(s => boundProject && s.apiBaseUrl === getProjectApiBaseUrl(boundProject)) || servers[0];
+    if (!server) {
+      vscode.window.showWarningMessage(`No InsForge MCP config with an API key found in ${folder.name}.`);
+      return;
+    }
+
+    await verifyMcpInstallation(
+      server.apiKey!,
+      server.apiBaseUrl!,
+      {
+        onVerifying: () => this.updateFolderMcpStatus(folder, 'verifying'),
+        onVerified: (tools) => {
+          this.updateFolderMcpStatus(folder, 'verified', tools);
+          vscode.window.showInformationMessage(`MCP server in ${folder.name} verified! ${tools.length} tools available.`);
+        },
+        onFailed: (error) => {
+          this.updateFolderMcpStatus(folder, 'failed', undefined, error);
+          vscode.window.showErrorMessage(`MCP verification failed in ${folder.name}: ${error}`);
+        },
+      },
+      server.transport
+    );
+  }
+
+  /**
+   * Projects of the active account from the cache (empty if nothing is cached yet)
+   */
+  private async _getCachedProjects(): Promise<Project[]> {
+    const accountKey = this._authProvider.getActiveAccount()?.key;
+    const cached = accountKey ? await this._cache?.read(accountKey) : undefined;
+    return (cached?.orgs || []).flatMap(entry => entry.projects);
+  }
+
+  private async _updateContent(force = false): Promise<void> {
     if (!this._view) return;
 
     const isLoggedIn = await this._authProvider.isAuthenticated();
+    const accountKey = this._authProvider.getActiveAccount()?.key;
 
-    if (!isLoggedIn) {
+    if (!isLoggedIn || !accountKey) {
       this._view.webview.html = this._getWelcomeHtml(this._view.webview);
       return;
     }
 
-    const orgs = await this._authProvider.getOrganizations();
-    const orgsWithProjects: Array<{ org: Organization; projects: Project[] }> = [];
+    // Stale-while-revalidate: render the cache first, then refetch if needed
+    const cached = await this._cache?.read(accountKey);
+    if (cached) {
+      this._view.webview.html = this._getProjectsHtml(this._view.webview, cached.orgs);
+      if (!force && Date.now() - cached.fetchedAt < PROJECTS_CACHE_FRESH_MS) {
+        return;
+      }
+    }
 
-    for (const org of orgs) {
-      const projects = await this._authProvider.getProjects(org.id);
-      orgsWithProjects.push({ org, projects });
+    if (!this._revalidating) {
+      this._revalidating = this._revalidate(accountKey, cached).finally(() => {
+        this._revalidating = undefined;
+      });
     }
+    await this._revalidating;
+  }
 
+  /**
+   * Fetch organizations and their projects (concurrently), update the cache and re-render
+   */
+  private async _revalidate(accountKey: string, cached: CachedProjects | undefined): Promise<void> {
+    let orgsWithProjects: OrgWithProjects[];
+    try {
+      orgsWithProjects = await this._fetchOrgsWithProjects();
+    } catch (error) {
+      console.error('[ProjectsViewProvider] Failed to load organizations:', error);
+      if (!this._view || this._authProvider.getActiveAccount()?.key !== accountKey) return;
+
+      if (error instanceof UnauthorizedError) {
+        this._view.webview.html = this._getWelcomeHtml(this._view.webview);
+      } else if (cached) {
+        // Keep showing cached data, with a notice that it may be outdated
+        this._view.webview.html = this._getProjectsHtml(this._view.webview, cached.orgs, describeApiError(error));
+      } else {
+        this._view.webview.html = this._getErrorHtml(describeApiError(error));
+      }
+      return;
+    }
+
+    // Orgs whose projects failed this time keep their cached projects; the others
+    // are cached with their error, so the retry row shows until they load
+    orgsWithProjects = orgsWithProjects.map((entry) => {
+      const cachedEntry = entry.error ? cached?.orgs.find(c => c.org.id === entry.org.id && !c.error) : undefined;
+      return cachedEntry ? { org: entry.org, projects: cachedEntry.projects } : entry;
+    });
+
+    await this._cache?.write(accountKey, {
+      fetchedAt: Date.now(),
+      orgs: orgsWithProjects,
+    });
+    this.snapshotPendingMcpConfigs();
+
+    // The account may have changed while fetching
+    if (!this._view || this._authProvider.getActiveAccount()?.key !== accountKey) return;
     this._view.webview.html = this._getProjectsHtml(this._view.webview, orgsWithProjects);
   }
 
+  private async _fetchOrgsWithProjects(): Promise<OrgWithProjects[]> {
+    const orgs = await this._authProvider.getOrganizations();
+
+    return Promise.all(orgs.map(async (org): Promise<OrgWithProjects> => {
+      try {
+        const projects = await this._authProvider.getProjects(org.id);
+        return { org, projects };
+      } catch (error) {
+        console.error(`[ProjectsViewProvider] Failed to load projects for ${org.id}:`, error);
+        return { org, projects: [], error: describeApiError(error) };
+      }
+    }));
+  }
+
+  /**
+   * Per-folder MCP status for multi-root workspaces: the project each folder is bound to,
+   * and whether its project-local configs point at that project and verify
+   */
+  private _getWorkspaceFoldersHtml(orgsWithProjects: OrgWithProjects[], mcpSvg: string): string {
+    if (this._folderBindings.length < 2) {
+      return '';
+    }
+
+    const projects = orgsWithProjects.flatMap(entry => entry.projects.map(project => ({ org: entry.org, project })));
+
+    const foldersHtml = this._folderBindings.map(({ folder, binding }) => {
+      // JS string literal for the onclick handlers
+      const folderArg = this._escapeHtml(JSON.stringify(folder.uri.toString()));
+      const owner = binding && projects.find(entry => entry.project.id === binding.projectId);
+      const project = owner?.project;
+      const servers = this._installedMcpServers.filter(server => server.workspaceFolder === folder.uri.fsPath);
+      const clients = this._escapeHtml([...new Set(servers.map(server => server.clientLabel))].join(', '));
+      const matching = project ? servers.filter(server => server.apiBaseUrl === getProjectApiBaseUrl(project)) : [];
+
+      let projectHtml: string;
+      let statusHtml: string;
+      if (!binding) {
+        projectHtml = `<span class="folder-project unbound">Not bound</span>`;
+        statusHtml = `<button class="install-btn" onclick="bindFolder(${folderArg})" title="Bind to the selected project in ${PROJECT_BINDING_FILE}">
+          <span class="codicon codicon-link"></span>
+          <span class="install-text">Bind</span>
+        </button>`;
+      } else if (!project) {
+        projectHtml = `<span class="folder-project unbound">Unknown project</span>`;
+        statusHtml = `<span class="codicon codicon-warning" title="The project in ${PROJECT_BINDING_FILE} was not found or is not accessible"></span>`;
+      } else if (servers.length === 0) {
+        projectHtml = `<span class="folder-project">${this._escapeHtml(project.name)}</span>`;
+        statusHtml = `<button class="install-btn" onclick="installMcpForFolder(${folderArg})" title="Install MCP in ${this._escapeHtml(folder.name)}">
+          <span class="mcp-icon">${mcpSvg}</span>
+          <span class="install-text">Install MCP</span>
+        </button>`;
+      } else if (matching.length === 0) {
+        projectHtml = `<span class="folder-project">${this._escapeHtml(project.name)}</span>`;
+        statusHtml = `<button class="mcp-failed-btn" onclick="installMcpForFolder(${folderArg})"
+          title="MCP in ${clients} points to another project - Click to install for ${this._escapeHtml(project.name)}"
+          aria-label="Install MCP for the bound project">
+          <span class="codicon codicon-warning folder-mismatch"></span>
+        </button>`;
+      } else {
+        projectHtml = `<span class="folder-project">${this._escapeHtml(project.name)}</span>`;
+        // Verified in this folder, otherwise whatever the project's last verification said
+        const folderStatus = this.getFolderMcpStatus(folder);
+        const status = folderStatus?.status || this.getMcpStatus(project.id);
+        const toolCount = (folderStatus ? folderStatus.tools : this.getMcpTools(project.id))?.length || 0;
+        switch (status) {
+          case 'verifying':
+            statusHtml = `<span class="mcp-verifying-dot" title="Verifying MCP server..."></span>`;
+            break;
+          case 'verified':
+            statusHtml = `<span class="mcp-verified-dot" title="MCP Server Verified (${toolCount} tools) - ${clients}"></span>`;
+            break;
+          case 'drifted':
+            statusHtml = `<button class="mcp-failed-btn" onclick="repairMcp('${owner!.org.id}', '${project.id}')"
+              title="MCP config changed - Click to repair" aria-label="Repair MCP configuration">
+              <span class="mcp-drifted-dot"></span>
+            </button>`;
+            break;
+          default:
+            statusHtml = `<button class="mcp-failed-btn" onclick="verifyFolderMcp(${folderArg})"
+              title="${status === 'failed' ? 'MCP verification failed' : `MCP configured in ${clients}`} - Click to verify"
+              aria-label="Verify MCP server">
+              <span class="${status === 'failed' ? 'mcp-failed-dot' : 'mcp-detected-dot'}"></span>
+            </button>`;
+        }
+      }
+
+      return `
+        <div class="folder-row" title="${this._escapeHtml(folder.uri.fsPath)}">
+          <span class="codicon codicon-root-folder"></span>
+          <span class="folder-name">${this._escapeHtml(folder.name)}</span>
+          ${projectHtml}
+          ${statusHtml}
+        </div>
+      `;
+    }).join('');
+
+    return `
+      <div class="workspace-folders">
+        <div class="workspace-folders-title">Workspace Folders</div>
+        ${foldersHtml}
+      </div>
+    `;
+  }
+
+  /**
+   * Error state shown when organizations can't be loaded
+   */
+  private _getErrorHtml(message: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <link rel="stylesheet" href="https://unpkg.com/@vscode/codicons/dist/codicon.css">
+  ${this._getStyles()}
+</head>
+<body>
+  <div class="error-state">
+    <span class="codicon codicon-warning error-icon"></span>
+    <p class="empty-title">Couldn't load your projects</p>
+    <p class="empty-desc">${this._escapeHtml(message)}</p>
+    <button class="btn primary" onclick="retry()">Retry</button>
+  </div>
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    function retry() {
+      vscode.postMessage({ command: 'refresh' });
+    }
+  </script>
+</body>
+</html>`;
+  }
+
   private _getWelcomeHtml(webview: vscode.Webview): string {
     // Choose logo based on current theme
     const isDarkTheme = vscode.window.activeColorTheme.kind === vscode.ColorThemeKind.Dark
@@ -403,7 +1082,8 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
 
   private _getProjectsHtml(
     webview: vscode.Webview,
-    orgsWithProjects: Array<{ org: Organization; projects: Project[] }>
+    orgsWithProjects: OrgWithProjects[],
+    staleError?: string
   ): string {
     // Load SVG icons from files (supports currentColor for theming)
     const folderSvg = loadSvg(this._extensionUri, 'resources/icons/folder.svg');
@@ -412,10 +1092,31 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
     const sendSvg = loadSvg(this._extensionUri, 'resources/icons/send.svg');
     const copySvg = loadSvg(this._extensionUri, 'resources/icons/copy.svg');
     const checkedSvg = loadSvg(this._extensionUri, 'resources/icons/checked.svg');
+    const selectedProjectId = this._authProvider.getCurrentProject()?.id;
 
-    const orgsHtml = orgsWithProjects.map(({ org, projects }) => {
+    const orgsHtml = orgsWithProjects.map(({ org, projects, error }) => {
       const escapedOrgName = this._escapeHtml(org.name);
 
+      if (error) {
+        // Projects failed to load - expanded so the error is visible
+        return `
+          <div class="org-section">
+            <div class="org-header" onclick="toggleOrg('${org.id}')">
+              <span class="codicon codicon-chevron-down" id="chevron-${org.id}"></span>
+              <span class="codicon codicon-organization"></span>
+              <span class="org-name" title="${escapedOrgName}">${escapedOrgName}</span>
+            </div>
+            <div class="org-content" id="content-${org.id}">
+              <div class="org-error">
+                <span class="codicon codicon-warning"></span>
+                <span class="org-error-text">${this._escapeHtml(error)}</span>
+                <button class="org-retry-btn" onclick="refresh()">Retry</button>
+              </div>
+            </div>
+          </div>
+        `;
+      }
+
       if (projects.length === 0) {
         // Empty state for org with no projects - collapsed by default
         return `
@@ -448,8 +1149,12 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
         const escapedLocation = this._escapeHtml(project.region || 'Unknown');
         const escapedDbSize = this._escapeHtml(project.storage_disk_size != null ? `${project.storage_disk_size} GB` : 'Unknown');
         const mcpStatus = this.getMcpStatus(project.id);
+        const driftReason = mcpStatus === 'drifted' ? this._escapeHtml(redact(this.getMcpStatuses().get(project.id)?.error || '')) : '';
         const mcpTools = this.getMcpTools(project.id);
         const toolCount = mcpTools?.length || 0;
+        const isSelected = project.id === selectedProjectId;
+        const detectedClients = this.getDetectedMcpClients(project);
+        const escapedClients = this._escapeHtml(detectedClients.join(', '));
 
         // Show different UI based on MCP status
         let mcpStatusHtml: string;
@@ -458,7 +1163,7 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
             mcpStatusHtml = `<span class="mcp-verifying-dot" title="Verifying MCP server..."></span>`;
             break;
           case 'verified':
-            mcpStatusHtml = `<span class="mcp-verified-dot" title="MCP Server Verified (${toolCount} tools)"></span>`;
+            mcpStatusHtml = `<span class="mcp-verified-dot" title="MCP Server Verified (${toolCount} tools)${detectedClients.length > 0 ? ` - ${escapedClients}` : ''}"></span>`;
             break;
           case 'failed':
             mcpStatusHtml = `<button
@@ -470,7 +1175,29 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
               <span class="mcp-failed-dot"></span>
             </button>`;
             break;
+          case 'drifted':
+            mcpStatusHtml = `<button
+              class="mcp-failed-btn"
+              title="MCP config changed: ${driftReason} - Click to repair"
+              aria-label="Repair MCP configuration"
+              onclick="event.stopPropagation(); repairMcp('${org.id}', '${project.id}')"
+            >
+              <span class="mcp-drifted-dot"></span>
+            </button>`;
+            break;
           default:
+            if (detectedClients.length > 0) {
+              // Configured outside this window (by hand, another tool or machine) but not verified here
+              mcpStatusHtml = `<button
+                class="mcp-failed-btn"
+                title="MCP configured in ${escapedClients} - Click to verify"
+                aria-label="Verify MCP server"
+                onclick="event.stopPropagation(); retryMcpVerification('${org.id}', '${project.id}')"
+              >
+                <span class="mcp-detected-dot"></span>
+              </button>`;
+              break;
+            }
             mcpStatusHtml = `<button class="install-btn" onclick="event.stopPropagation(); installMcp('${org.id}', '${project.id}')" title="Install MCP">
               <span class="mcp-icon">${mcpSvg}</span>
               <span class="install-text">Install MCP</span>
@@ -479,10 +1206,10 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
 
         return `
         <div class="project-section">
-          <div class="project-header" onclick="toggleProject('${project.id}')">
+          <div class="project-header${isSelected ? ' selected' : ''}" onclick="toggleProject('${project.id}')">
             <span class="codicon codicon-chevron-right" id="project-chevron-${project.id}"></span>
             <span class="codicon codicon-project"></span>
-            <span class="project-name" title="${escapedProjectName}">${escapedProjectName}</span>
+            <span class="project-name" title="${escapedProjectName}${isSelected ? ' (selected)' : ''}">${escapedProjectName}</span>
             ${mcpStatusHtml}
           </div>
           <div class="project-content collapsed" id="project-content-${project.id}">
@@ -499,10 +1226,28 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
                 <span class="detail-label">Database</span>
                 <span class="detail-value">${escapedDbSize}</span>
               </div>
+              ${detectedClients.length > 0 ? `
+              <div class="detail-row">
+                <span class="detail-label">MCP</span>
+                <span class="detail-value">${escapedClients}</span>
+              </div>` : ''}
               <a class="view-details-link" href="#" onclick="event.preventDefault(); viewProjectDetails('${project.id}')">
                 View Details in InsForge
                 <span class="codicon codicon-chevron-right"></span>
               </a>
+              <a class="view-details-link uninstall-mcp-link" href="#" onclick="event.preventDefault(); uninstallMcp('${org.id}', '${project.id}')">
+                Remove MCP from AI Clients
+                <span class="codicon codicon-trash"></span>
+              </a>
+              <a class="view-details-link rotate-key-link" href="#" onclick="event.preventDefault(); rotateApiKey('${org.id}', '${project.id}')">
+                Rotate API Key
+                <span class="codicon codicon-key"></span>
+              </a>
+              ${mcpStatus === 'drifted' ? `
+              <a class="view-details-link repair-mcp-link" href="#" title="${driftReason}" onclick="event.preventDefault(); repairMcp('${org.id}', '${project.id}')">
+                Repair MCP Configuration
+                <span class="codicon codicon-wrench"></span>
+              </a>` : ''}
             </div>
           </div>
         </div>
@@ -548,6 +1293,12 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
 </head>
 <body>
   <div class="projects-container">
+    ${staleError ? `<div class="stale-banner">
+      <span class="codicon codicon-warning"></span>
+      <span class="org-error-text">Showing cached projects. ${this._escapeHtml(staleError)}</span>
+      <button class="org-retry-btn" onclick="refresh()">Retry</button>
+    </div>` : ''}
+    ${this._getWorkspaceFoldersHtml(orgsWithProjects, mcpSvg)}
     ${orgsHtml.length > 0 ? orgsHtml : '<p class="no-orgs">No organizations found</p>'}
   </div>
   
@@ -643,6 +1394,10 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       }
     }
     
+    function refresh() {
+      vscode.postMessage({ command: 'refresh' });
+    }
+    
     function selectProject(orgId, projectId) {
       vscode.postMessage({ command: 'selectProject', orgId, projectId });
     }
@@ -655,10 +1410,34 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       vscode.postMessage({ command: 'installMcp', orgId, projectId });
     }
     
+    function uninstallMcp(orgId, projectId) {
+      vscode.postMessage({ command: 'uninstallMcp', orgId, projectId });
+    }
+    
+    function rotateApiKey(orgId, projectId) {
+      vscode.postMessage({ command: 'rotateApiKey', orgId, projectId });
+    }
+    
     function retryMcpVerification(orgId, projectId) {
       vscode.postMessage({ command: 'retryMcpVerification', orgId, projectId });
     }
     
+    function repairMcp(orgId, projectId) {
+      vscode.postMessage({ command: 'repairMcp', orgId, projectId });
+    }
+    
+    function bindFolder(folder) {
+      vscode.postMessage({ command: 'bindFolder', folder });
+    }
+    
+    function installMcpForFolder(folder) {
+      vscode.postMessage({ command: 'installMcpForFolder', folder });
+    }
+    
+    function verifyFolderMcp(folder) {
+      vscode.postMessage({ command: 'verifyFolderMcp', folder });
+    }
+    
     function openInInsforge(orgId) {
       vscode.postMessage({ command: 'openInInsforge', orgId });
     }
@@ -929,10 +1708,70 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       text-overflow: ellipsis;
     }
     
+    .project-header.selected .project-name {
+      font-weight: 600;
+      color: #10B981;
+    }
+    
     .project-content {
       overflow: hidden;
     }
     
+    .workspace-folders {
+      padding-bottom: 6px;
+      margin-bottom: 4px;
+      border-bottom: 1px solid var(--vscode-sideBarSectionHeader-border, transparent);
+    }
+    
+    .workspace-folders-title {
+      padding: 4px 8px;
+      font-size: 11px;
+      font-weight: 600;
+      text-transform: uppercase;
+      opacity: 0.8;
+    }
+    
+    .folder-row {
+      position: relative;
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 2px 8px;
+      line-height: 22px;
+    }
+    
+    .folder-row:hover {
+      background: var(--vscode-list-hoverBackground);
+    }
+    
+    .folder-row:hover .install-btn {
+      opacity: 1;
+    }
+    
+    .folder-name {
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    
+    .folder-project {
+      flex: 1;
+      min-width: 0;
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    
+    .folder-project.unbound {
+      font-style: italic;
+    }
+    
+    .folder-mismatch {
+      color: var(--vscode-editorWarning-foreground);
+    }
+    
     .project-content.collapsed {
       display: none;
     }
@@ -975,6 +1814,20 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       font-size: 20px;
     }
     
+    .uninstall-mcp-link,
+    .rotate-key-link,
+    .repair-mcp-link {
+      display: flex;
+      margin-top: 4px;
+      color: var(--vscode-descriptionForeground);
+    }
+    
+    .uninstall-mcp-link .codicon,
+    .rotate-key-link .codicon,
+    .repair-mcp-link .codicon {
+      font-size: 16px;
+    }
+    
     .install-btn {
       position: absolute;
       right: 8px;
@@ -1049,6 +1902,23 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       outline-offset: 2px;
     }
 
+    .mcp-detected-dot {
+      width: 8px;
+      height: 8px;
+      box-sizing: border-box;
+      border: 2px solid #22C55E;
+      border-radius: 50%;
+      flex-shrink: 0;
+    }
+    
+    .mcp-drifted-dot {
+      width: 8px;
+      height: 8px;
+      background-color: #F97316;
+      border-radius: 50%;
+      flex-shrink: 0;
+    }
+    
     .mcp-failed-dot {
       width: 8px;
       height: 8px;
@@ -1119,6 +1989,59 @@ export class ProjectsViewProvider implements vscode.WebviewViewProvider {
       color: var(--vscode-descriptionForeground);
     }
     
+    /* Error states */
+    .error-state {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      padding: 40px 20px;
+      text-align: center;
+    }
+    
+    .error-icon {
+      font-size: 32px;
+      margin-bottom: 12px;
+      color: var(--vscode-errorForeground);
+    }
+    
+    .org-error {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 4px 8px 8px 30px;
+      font-size: 12px;
+      color: var(--vscode-errorForeground);
+    }
+    
+    .stale-banner {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 8px;
+      font-size: 12px;
+      color: var(--vscode-editorWarning-foreground);
+    }
+    
+    .org-error-text {
+      flex: 1;
+      min-width: 0;
+    }
+    
+    .org-retry-btn {
+      padding: 0px 6px;
+      font-size: 12px;
+      line-height: 21px;
+      color: var(--vscode-button-foreground);
+      background: var(--vscode-button-background);
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+    }
+    
+    .org-retry-btn:hover {
+      background: var(--vscode-button-hoverBackground);
+    }
+    
     /* Codicon styles */
     .codicon {
       font-size: 16px;